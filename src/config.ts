@@ -0,0 +1,127 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type { PluginLoaderOptions } from './plugins/loader.js';
+
+export type CoverageMetricName = 'statements' | 'branches' | 'functions' | 'lines';
+
+/** Minimum percentages; a negative value is the number of uncovered items allowed instead */
+export type MetricThresholds = Partial<Record<CoverageMetricName, number>>;
+
+/** Thresholds of a glob; `100: true` sets every metric to 100 */
+export type GlobThresholds = MetricThresholds & { 100?: boolean };
+
+/**
+ * Same shape as Vitest's `coverage.thresholds`: metric keys set the global minimums, any other key
+ * is a glob (relative to the project root) with its own minimums. `perFile: true` checks every file
+ * instead of the combined coverage, `100: true` sets every global minimum to 100.
+ */
+export type CoverageThresholds = Record<string, number | boolean | GlobThresholds>;
+
+export type PackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun';
+
+/**
+ * A project the server works on, registered under an ID in `projects`.
+ */
+export interface ProjectConfig {
+  /** Absolute path of the project root */
+  root: string;
+  /** Detected from the lockfile when unset */
+  packageManager?: PackageManager;
+  /** Vitest config file, relative to the root; Vitest looks it up itself when unset */
+  vitestConfig?: string;
+  /** Overrides the server-wide coverageThresholds for this project */
+  coverageThresholds?: CoverageThresholds;
+}
+
+/** `read`: reports, badges, health. `analyze`: runs tests. `write`: installs packages and writes files */
+export type Scope = 'read' | 'analyze' | 'write';
+
+/**
+ * A client allowed to call the server, identified by its bearer token.
+ */
+export interface ClientTokenConfig {
+  /** Name of the client in the audit log */
+  client: string;
+  token?: string;
+  /** Environment variable holding the token, instead of `token` */
+  tokenEnvVar?: string;
+  scopes: Scope[];
+}
+
+export interface AuthConfig {
+  /** Requests must send one of these as `Authorization: Bearer <token>`. No authentication when empty */
+  tokens: ClientTokenConfig[];
+  /** JSON lines file recording calls of write-scoped tools. Defaults to .vitest-mcp/audit.log */
+  auditLog?: string;
+}
+
+export interface ServerConfig {
+  /** Project of tools called without projectPath or projectId, unless defaultProject is set */
+  projectRoot: string;
+  /** Registered projects by ID */
+  projects: Record<string, ProjectConfig>;
+  /** ID of the project used when a tool is called without projectPath or projectId */
+  defaultProject?: string;
+  /**
+   * Directories tools may read and write in, besides the roots of registered projects.
+   * Only projectRoot when unset.
+   */
+  allowedRoots?: string[];
+  auth?: AuthConfig;
+  port: number;
+  logLevel: string;
+  corsOrigins: string[];
+  coverageThresholds: CoverageThresholds;
+  /** Extra plugin packages/paths and enable/disable lists by plugin name */
+  plugins: Omit<PluginLoaderOptions, 'pluginsDir'>;
+  [key: string]: any;
+}
+
+const defaultConfig: ServerConfig = {
+  projectRoot: process.cwd(),
+  port: parseInt(process.env.PORT || '3000'),
+  logLevel: process.env.LOG_LEVEL || 'info',
+  corsOrigins: ['http://localhost:3000', 'http://127.0.0.1:3000'],
+  coverageThresholds: {
+    statements: 100,
+    branches: 100,
+    functions: 100,
+    lines: 100
+  },
+  plugins: {},
+  projects: {},
+  allowedRoots: process.env.MCP_ALLOWED_ROOTS?.split(path.delimiter).filter(Boolean)
+};
+
+let config: ServerConfig = defaultConfig;
+let configFilePath = path.join(process.cwd(), 'mcp.config.json');
+
+/**
+ * Current server configuration, shared by the server and the tools.
+ */
+export function getConfig(): ServerConfig {
+  return config;
+}
+
+/**
+ * Merges mcp.config.json over the defaults. Returns false when there is no config file.
+ */
+export async function loadConfigFile(configPath = path.join(process.cwd(), 'mcp.config.json')): Promise<boolean> {
+  configFilePath = configPath;
+  if (!(await fs.pathExists(configPath))) {
+    return false;
+  }
+  const fileConfig = await fs.readJSON(configPath);
+  config = { ...defaultConfig, ...fileConfig };
+  return true;
+}
+
+/**
+ * Writes `changes` into the loaded config file (creating it if there was none) and into the
+ * current configuration. Keys not in `changes` are left as they are in the file.
+ */
+export async function saveConfigFile(changes: Partial<ServerConfig>): Promise<void> {
+  const fileConfig = (await fs.pathExists(configFilePath)) ? await fs.readJSON(configFilePath) : {};
+  await fs.writeJSON(configFilePath, { ...fileConfig, ...changes }, { spaces: 2 });
+  config = { ...config, ...changes };
+}
@@ -0,0 +1,102 @@
+/**
+ * Shields-style flat badges: a grey label on the left, a coloured value on the right.
+ */
+
+export const BADGE_COLORS: Record<string, string> = {
+  brightgreen: '#4c1',
+  green: '#97ca00',
+  yellowgreen: '#a4a61d',
+  yellow: '#dfb317',
+  orange: '#fe7d37',
+  red: '#e05d44',
+  blue: '#007ec6',
+  lightgrey: '#9f9f9f'
+};
+
+// Advance widths of printable ASCII (space to ~) in 11px Verdana, the font shields.io renders with
+const VERDANA_11_WIDTHS = [
+  3.87, 4.33, 5.05, 9, 6.99, 11.84, 7.99, 2.95, 4.99, 4.99, 6.99, 9, 4, 4.99, 4, 4.99,
+  6.99, 6.99, 6.99, 6.99, 6.99, 6.99, 6.99, 6.99, 6.99, 6.99, 4.99, 4.99, 9, 9, 9, 5.99,
+  11, 7.52, 7.54, 7.68, 8.48, 6.96, 6.32, 8.53, 8.27, 4.63, 5, 7.62, 6.12, 9.27, 8.23, 8.66,
+  6.63, 8.66, 7.65, 7.52, 6.78, 8.05, 7.52, 10.88, 7.54, 6.77, 7.54, 4.99, 4.99, 4.99, 9, 6.99,
+  6.99, 6.61, 6.85, 5.73, 6.85, 6.55, 3.87, 6.85, 6.96, 3.02, 3.79, 6.51, 3.02, 10.7, 6.96, 6.68,
+  6.85, 6.85, 4.69, 5.73, 4.33, 6.96, 6.51, 8.99, 6.51, 6.51, 5.78, 6.98, 4.99, 6.98, 9
+];
+const FALLBACK_WIDTH = 7.5;
+const PADDING = 10;
+
+/**
+ * Approximate rendered width of `text` in pixels.
+ */
+export function measureText(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    width += code >= 32 && code <= 126 ? VERDANA_11_WIDTHS[code - 32] : FALLBACK_WIDTH;
+  }
+  return width;
+}
+
+/**
+ * Colour for a coverage percentage. With a threshold, anything at or above it is green and the
+ * colour degrades with the distance below it; without one the usual shields.io scale is used.
+ */
+export function coverageColor(pct: number, threshold?: number): string {
+  if (threshold !== undefined) {
+    if (pct >= threshold) return 'brightgreen';
+    if (pct >= threshold - 5) return 'yellow';
+    if (pct >= threshold - 15) return 'orange';
+    return 'red';
+  }
+  if (pct >= 90) return 'brightgreen';
+  if (pct >= 80) return 'green';
+  if (pct >= 70) return 'yellowgreen';
+  if (pct >= 60) return 'yellow';
+  if (pct >= 50) return 'orange';
+  return 'red';
+}
+
+export function deltaColor(delta: number): string {
+  if (delta > 0) return 'brightgreen';
+  if (delta < 0) return 'red';
+  return 'lightgrey';
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Renders a flat badge. `color` is one of BADGE_COLORS or any CSS colour.
+ */
+export function renderBadge(label: string, message: string, color: string): string {
+  const labelWidth = Math.round(measureText(label) + PADDING);
+  const messageWidth = Math.round(measureText(message) + PADDING);
+  const width = labelWidth + messageWidth;
+  const fill = escapeXml(BADGE_COLORS[color] || color);
+  const title = escapeXml(`${label}: ${message}`);
+  const labelText = escapeXml(label);
+  const messageText = escapeXml(message);
+
+  // Text is drawn at 10x and scaled down, as shields.io does, to keep sub-pixel positioning
+  const labelX = labelWidth * 5;
+  const messageX = (labelWidth + messageWidth / 2) * 10;
+  const labelLength = (labelWidth - PADDING) * 10;
+  const messageLength = (messageWidth - PADDING) * 10;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="20" role="img" aria-label="${title}">` +
+    `<title>${title}</title>` +
+    `<linearGradient id="s" x2="0" y2="100%"><stop offset="0" stop-color="#bbb" stop-opacity=".1"/><stop offset="1" stop-opacity=".1"/></linearGradient>` +
+    `<clipPath id="r"><rect width="${width}" height="20" rx="3" fill="#fff"/></clipPath>` +
+    `<g clip-path="url(#r)">` +
+    `<rect width="${labelWidth}" height="20" fill="#555"/>` +
+    `<rect x="${labelWidth}" width="${messageWidth}" height="20" fill="${fill}"/>` +
+    `<rect width="${width}" height="20" fill="url(#s)"/>` +
+    `</g>` +
+    `<g fill="#fff" text-anchor="middle" font-family="Verdana,Geneva,DejaVu Sans,sans-serif" text-rendering="geometricPrecision" font-size="110">` +
+    `<text aria-hidden="true" x="${labelX}" y="150" fill="#010101" fill-opacity=".3" transform="scale(.1)" textLength="${labelLength}">${labelText}</text>` +
+    `<text x="${labelX}" y="140" transform="scale(.1)" fill="#fff" textLength="${labelLength}">${labelText}</text>` +
+    `<text aria-hidden="true" x="${messageX}" y="150" fill="#010101" fill-opacity=".3" transform="scale(.1)" textLength="${messageLength}">${messageText}</text>` +
+    `<text x="${messageX}" y="140" transform="scale(.1)" fill="#fff" textLength="${messageLength}">${messageText}</text>` +
+    `</g></svg>`;
+}
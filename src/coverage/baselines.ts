@@ -0,0 +1,49 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { ensureStateDirectory, statePath } from '../services/stateDirectory.js';
+import type { CoverageMap } from './istanbul.js';
+
+/**
+ * Baseline coverage per commit lives in `<project>/.vitest-mcp/baselines/<sha>.json`.
+ * File keys are stored relative to the project root so baselines produced in CI or in a
+ * temporary worktree can be reused from any checkout.
+ */
+export function baselinePath(projectRoot: string, sha: string): string {
+  return statePath(projectRoot, 'baselines', `${sha}.json`);
+}
+
+export async function readBaseline(projectRoot: string, sha: string): Promise<CoverageMap | null> {
+  const file = baselinePath(projectRoot, sha);
+  if (!(await fs.pathExists(file))) return null;
+  return absolutizeCoverage(await fs.readJSON(file), projectRoot);
+}
+
+export async function writeBaseline(projectRoot: string, sha: string, coverage: CoverageMap): Promise<string> {
+  const file = baselinePath(projectRoot, sha);
+  await ensureStateDirectory(projectRoot, 'baselines');
+  await fs.writeJSON(file, relativizeCoverage(coverage, projectRoot));
+  return file;
+}
+
+/**
+ * Rewrites absolute file keys under `root` to root-relative POSIX paths.
+ */
+export function relativizeCoverage(coverage: CoverageMap, root: string): CoverageMap {
+  return mapFiles(coverage, file => {
+    const relative = path.relative(root, file);
+    return relative.startsWith('..') || path.isAbsolute(relative) ? file : relative.split(path.sep).join('/');
+  });
+}
+
+export function absolutizeCoverage(coverage: CoverageMap, root: string): CoverageMap {
+  return mapFiles(coverage, file => (path.isAbsolute(file) ? file : path.join(root, file)));
+}
+
+function mapFiles(coverage: CoverageMap, rename: (file: string) => string): CoverageMap {
+  const result: CoverageMap = {};
+  for (const [file, data] of Object.entries(coverage)) {
+    const renamed = rename(file);
+    result[renamed] = { ...data, path: renamed };
+  }
+  return result;
+}
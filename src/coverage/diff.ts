@@ -0,0 +1,98 @@
+import type { CoverageMetricName } from '../config.js';
+import type { CoverageMap } from './istanbul.js';
+import { CoverageMetric, CoverageMetrics, mergeMetrics, METRICS, summarizeFile, toRelative } from './summary.js';
+
+export interface MetricDelta {
+  base: CoverageMetric | null;
+  current: CoverageMetric | null;
+  /** Change in percentage points, null when the file only exists on one side */
+  delta: number | null;
+}
+
+export type MetricDeltas = Record<CoverageMetricName, MetricDelta>;
+
+export interface FileCoverageDiff extends MetricDeltas {
+  status: 'added' | 'deleted' | 'renamed' | 'existing';
+  /** Path on the base side for renamed files */
+  previousPath?: string;
+}
+
+export interface CoverageDiff {
+  /** Keyed by path relative to the project root (current path for renamed files) */
+  files: Record<string, FileCoverageDiff>;
+  total: Record<CoverageMetricName, MetricDelta & { delta: number }>;
+}
+
+export interface FileRename {
+  from: string;
+  to: string;
+}
+
+function toDeltas(base: CoverageMetrics | null, current: CoverageMetrics | null): MetricDeltas {
+  const deltas = {} as MetricDeltas;
+  for (const metric of METRICS) {
+    const b = base?.[metric] ?? null;
+    const c = current?.[metric] ?? null;
+    deltas[metric] = { base: b, current: c, delta: b && c ? round(c.pct - b.pct) : null };
+  }
+  return deltas;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Compares covered/total counts and percentages per file and overall. Files are matched by path,
+ * or through `renames` (absolute or project-relative paths) when they moved between the two sides.
+ */
+export function computeCoverageDiff(
+  base: CoverageMap,
+  current: CoverageMap,
+  projectRoot: string,
+  renames: FileRename[] = []
+): CoverageDiff {
+  const baseFiles = new Map<string, CoverageMetrics>();
+  for (const [file, data] of Object.entries(base)) baseFiles.set(toRelative(projectRoot, file), summarizeFile(data));
+  const currentFiles = new Map<string, CoverageMetrics>();
+  for (const [file, data] of Object.entries(current)) currentFiles.set(toRelative(projectRoot, file), summarizeFile(data));
+
+  const renamedFrom = new Map<string, string>();
+  for (const { from, to } of renames) {
+    const oldPath = toRelative(projectRoot, from);
+    const newPath = toRelative(projectRoot, to);
+    if (baseFiles.has(oldPath) && !baseFiles.has(newPath) && currentFiles.has(newPath)) {
+      renamedFrom.set(newPath, oldPath);
+    }
+  }
+  const consumed = new Set(renamedFrom.values());
+
+  const files: Record<string, FileCoverageDiff> = {};
+  for (const [file, metrics] of currentFiles) {
+    const previousPath = renamedFrom.get(file);
+    if (previousPath) {
+      files[file] = { status: 'renamed', previousPath, ...toDeltas(baseFiles.get(previousPath)!, metrics) };
+    } else if (baseFiles.has(file)) {
+      files[file] = { status: 'existing', ...toDeltas(baseFiles.get(file)!, metrics) };
+    } else {
+      files[file] = { status: 'added', ...toDeltas(null, metrics) };
+    }
+  }
+  for (const [file, metrics] of baseFiles) {
+    if (currentFiles.has(file) || consumed.has(file)) continue;
+    files[file] = { status: 'deleted', ...toDeltas(metrics, null) };
+  }
+
+  const baseTotal = mergeMetrics([...baseFiles.values()]);
+  const currentTotal = mergeMetrics([...currentFiles.values()]);
+  const total = {} as CoverageDiff['total'];
+  for (const metric of METRICS) {
+    total[metric] = {
+      base: baseTotal[metric],
+      current: currentTotal[metric],
+      delta: round(currentTotal[metric].pct - baseTotal[metric].pct)
+    };
+  }
+
+  return { files, total };
+}
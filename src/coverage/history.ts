@@ -0,0 +1,139 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import type { CoverageMetricName } from '../config.js';
+import { ensureStateDirectory, statePath } from '../services/stateDirectory.js';
+import type { CoverageMap } from './istanbul.js';
+import { CoverageMetrics, CoverageSummary, METRICS, summarizeCoverage } from './summary.js';
+
+/**
+ * Every recorded coverage run lives in `<project>/.vitest-mcp/history/<id>.json`, next to the
+ * baselines. Ids start with a compact UTC timestamp so they sort chronologically.
+ */
+export interface CoverageRun {
+  id: string;
+  timestamp: string;
+  sha: string | null;
+  branch: string | null;
+  /** The working tree had uncommitted changes, so `sha` does not fully describe the code */
+  dirty: boolean;
+  /** Tool that produced the run, e.g. `analyze_coverage` */
+  source: string;
+  /** Set when only part of the suite ran; such runs are left out of trends and regressions by default */
+  scope?: Record<string, unknown>;
+  summary: CoverageSummary;
+}
+
+export type CoverageRunInfo = Omit<CoverageRun, 'summary'> & { total: CoverageMetrics };
+
+export interface TrendPoint {
+  id: string;
+  timestamp: string;
+  sha: string | null;
+  branch: string | null;
+  /** null when the file or directory did not exist in that run */
+  metrics: CoverageMetrics | null;
+}
+
+export interface CoverageRegression {
+  scope: 'total' | 'directory' | 'file';
+  /** Relative path of the directory or file */
+  path?: string;
+  metric: CoverageMetricName;
+  from: number;
+  to: number;
+  delta: number;
+}
+
+function historyDir(projectRoot: string): string {
+  return statePath(projectRoot, 'history');
+}
+
+export async function recordCoverageRun(
+  projectRoot: string,
+  coverage: CoverageMap,
+  run: Pick<CoverageRun, 'sha' | 'branch' | 'dirty' | 'source' | 'scope'>
+): Promise<CoverageRun> {
+  const now = new Date();
+  const id = `${now.toISOString().replace(/[-:.]/g, '')}-${crypto.randomBytes(3).toString('hex')}`;
+  const record: CoverageRun = {
+    id,
+    timestamp: now.toISOString(),
+    ...run,
+    summary: summarizeCoverage(coverage, projectRoot)
+  };
+
+  await ensureStateDirectory(projectRoot, 'history');
+  await fs.writeJSON(path.join(historyDir(projectRoot), `${id}.json`), record);
+  return record;
+}
+
+export async function readCoverageRun(projectRoot: string, id: string): Promise<CoverageRun | null> {
+  // Ids are file names; anything that could leave the history directory is not one
+  if (!/^[\w-]+$/.test(id)) return null;
+  const file = path.join(historyDir(projectRoot), `${id}.json`);
+  return (await fs.pathExists(file)) ? fs.readJSON(file) : null;
+}
+
+/**
+ * All recorded runs, oldest first.
+ */
+export async function listCoverageRuns(projectRoot: string, options: { includeScoped?: boolean } = {}): Promise<CoverageRun[]> {
+  const dir = historyDir(projectRoot);
+  if (!(await fs.pathExists(dir))) return [];
+
+  const ids = (await fs.readdir(dir))
+    .filter(file => file.endsWith('.json'))
+    .map(file => file.slice(0, -'.json'.length))
+    .sort();
+  const runs: CoverageRun[] = [];
+  for (const id of ids) {
+    const run = await readCoverageRun(projectRoot, id);
+    if (run && (options.includeScoped || !run.scope)) runs.push(run);
+  }
+  return runs;
+}
+
+export function toRunInfo({ summary, ...run }: CoverageRun): CoverageRunInfo {
+  return { ...run, total: summary.total };
+}
+
+/**
+ * Metrics of the whole project, a directory or a file across runs.
+ */
+export function coverageTrend(runs: CoverageRun[], scope: 'total' | 'directory' | 'file', target?: string): TrendPoint[] {
+  return runs.map(run => ({
+    id: run.id,
+    timestamp: run.timestamp,
+    sha: run.sha,
+    branch: run.branch,
+    metrics: scope === 'total'
+      ? run.summary.total
+      : (scope === 'directory' ? run.summary.directories : run.summary.files)[target ?? ''] ?? null
+  }));
+}
+
+/**
+ * Percentages that dropped by more than `tolerance` points from one run to another, overall,
+ * per directory and per file. Files and directories missing from either run are not compared.
+ */
+export function findRegressions(from: CoverageRun, to: CoverageRun, tolerance = 0): CoverageRegression[] {
+  const regressions: CoverageRegression[] = [];
+  const compare = (scope: CoverageRegression['scope'], before: CoverageMetrics, after: CoverageMetrics, target?: string) => {
+    for (const metric of METRICS) {
+      const delta = Math.round((after[metric].pct - before[metric].pct) * 100) / 100;
+      if (delta < -tolerance) {
+        regressions.push({ scope, path: target, metric, from: before[metric].pct, to: after[metric].pct, delta });
+      }
+    }
+  };
+
+  compare('total', from.summary.total, to.summary.total);
+  for (const [dir, metrics] of Object.entries(to.summary.directories)) {
+    if (from.summary.directories[dir]) compare('directory', from.summary.directories[dir], metrics, dir);
+  }
+  for (const [file, metrics] of Object.entries(to.summary.files)) {
+    if (from.summary.files[file]) compare('file', from.summary.files[file], metrics, file);
+  }
+  return regressions;
+}
@@ -0,0 +1,185 @@
+import fs from 'fs-extra';
+
+/**
+ * Shapes of the Istanbul `coverage-final.json` written by both the v8 and istanbul providers.
+ */
+export interface Position {
+  line: number;
+  column: number | null;
+}
+
+export interface SourceRange {
+  start: Position;
+  end: Position;
+}
+
+export interface FunctionMapping {
+  name: string;
+  decl: SourceRange;
+  loc: SourceRange;
+  line: number;
+}
+
+export interface BranchMapping {
+  type: string;
+  loc: SourceRange;
+  locations: SourceRange[];
+  line: number;
+}
+
+export interface FileCoverage {
+  path: string;
+  statementMap: Record<string, SourceRange>;
+  fnMap: Record<string, FunctionMapping>;
+  branchMap: Record<string, BranchMapping>;
+  s: Record<string, number>;
+  f: Record<string, number>;
+  b: Record<string, number[]>;
+}
+
+export type CoverageMap = Record<string, FileCoverage>;
+
+export type BranchKind = 'if' | 'cond-expr' | 'switch' | 'logical' | 'default-arg' | 'branch';
+
+export interface UncoveredEntry {
+  file: string;
+  type: 'statement' | 'branch' | 'function';
+  /** Istanbul key in the statement/branch/function map */
+  id: string;
+  start: Position;
+  end: Position;
+  /** Name of the uncovered function, or of the function enclosing the statement/branch */
+  functionName?: string;
+  branchKind?: BranchKind;
+  /** Index of the branch arm that never ran (0 = consequent / first case) */
+  armIndex?: number;
+  snippet?: string;
+}
+
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+export async function readCoverageMap(coveragePath: string): Promise<CoverageMap> {
+  const raw = await fs.readFile(coveragePath, 'utf-8');
+  return JSON.parse(raw);
+}
+
+// Istanbul calls `a && b` a binary-expr; the v8 provider only reports generic branches
+const BRANCH_KINDS: Record<string, BranchKind> = {
+  'if': 'if',
+  'cond-expr': 'cond-expr',
+  'switch': 'switch',
+  'binary-expr': 'logical',
+  'default-arg': 'default-arg'
+};
+
+/**
+ * Resolves every uncovered statement, branch arm and function of a file to its source location.
+ */
+export function findUncovered(file: string, data: FileCoverage): UncoveredEntry[] {
+  const uncovered: UncoveredEntry[] = [];
+
+  for (const [id, count] of Object.entries(data.s || {})) {
+    if (count !== 0) continue;
+    const loc = data.statementMap?.[id];
+    if (!loc) continue;
+    uncovered.push({
+      file,
+      type: 'statement',
+      id,
+      start: loc.start,
+      end: loc.end,
+      functionName: enclosingFunction(data, loc)
+    });
+  }
+
+  for (const [id, counts] of Object.entries(data.b || {})) {
+    const branch = data.branchMap?.[id];
+    if (!branch) continue;
+    counts.forEach((count, armIndex) => {
+      if (count !== 0) return;
+      // Implicit arms (an `if` without `else`) have an empty location, so fall back to the whole branch
+      const armLoc = branch.locations?.[armIndex];
+      const loc = armLoc?.start?.line ? armLoc : branch.loc;
+      uncovered.push({
+        file,
+        type: 'branch',
+        id,
+        start: loc.start,
+        end: loc.end,
+        functionName: enclosingFunction(data, loc),
+        branchKind: BRANCH_KINDS[branch.type] || 'branch',
+        armIndex
+      });
+    });
+  }
+
+  for (const [id, count] of Object.entries(data.f || {})) {
+    if (count !== 0) continue;
+    const fn = data.fnMap?.[id];
+    if (!fn) continue;
+    uncovered.push({
+      file,
+      type: 'function',
+      id,
+      start: fn.loc.start,
+      end: fn.loc.end,
+      functionName: fn.name
+    });
+  }
+
+  return uncovered;
+}
+
+/**
+ * Innermost function whose body contains the range.
+ */
+function enclosingFunction(data: FileCoverage, range: SourceRange): string | undefined {
+  let best: FunctionMapping | undefined;
+  for (const fn of Object.values(data.fnMap || {})) {
+    if (!contains(fn.loc, range)) continue;
+    if (!best || contains(best.loc, fn.loc)) best = fn;
+  }
+  return best?.name;
+}
+
+function contains(outer: SourceRange, inner: SourceRange): boolean {
+  return comparePositions(outer.start, inner.start) <= 0 && comparePositions(inner.end, outer.end) <= 0;
+}
+
+function comparePositions(a: Position, b: Position): number {
+  return a.line - b.line || (a.column ?? 0) - (b.column ?? 0);
+}
+
+/**
+ * Merges the lines spanned by the entries into sorted, non-overlapping ranges.
+ * Ranges that touch (10-12 and 13-15) are merged as well.
+ */
+export function mergeLineRanges(entries: Array<{ start: Position; end: Position }>): LineRange[] {
+  const sorted = entries
+    .map(e => ({ start: e.start.line, end: Math.max(e.start.line, e.end.line) }))
+    .sort((a, b) => a.start - b.start);
+
+  const merged: LineRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Source lines of a range, capped at `maxLines` so a whole uncovered component does not flood the response.
+ */
+export function extractSnippet(sourceLines: string[], start: Position, end: Position, maxLines = 10): string {
+  const last = Math.min(end.line, start.line + maxLines - 1);
+  const lines = sourceLines.slice(start.line - 1, last);
+  if (last < end.line) lines.push(`// … ${end.line - last} more lines`);
+  return lines.join('\n');
+}
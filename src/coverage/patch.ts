@@ -0,0 +1,141 @@
+import path from 'path';
+import type { CoverageMap, FileCoverage, LineRange } from './istanbul.js';
+import { mergeLineRanges } from './istanbul.js';
+import { toRelative } from './summary.js';
+
+export interface FilePatchCoverage {
+  /** Added or modified lines in the new version of the file */
+  changedLines: number[];
+  coveredLines: number[];
+  uncoveredLines: LineRange[];
+  /** Changed lines that contain a statement; the rest (comments, types, blank lines) are ignored */
+  coverable: number;
+  covered: number;
+  pct: number;
+}
+
+export interface PatchCoverage {
+  files: Record<string, FilePatchCoverage>;
+  /** Changed files that do not appear in the coverage report (tests, config, docs, excluded sources) */
+  filesWithoutCoverage: string[];
+  total: { changedLines: number; coverable: number; covered: number; pct: number };
+}
+
+/**
+ * Added/modified line numbers per file from a unified diff, keyed by the new path as it appears
+ * in the diff (without git's `b/` prefix). Deleted files are skipped.
+ */
+export function parseUnifiedDiff(diff: string): Record<string, number[]> {
+  const result: Record<string, number[]> = {};
+  let current: number[] | null = null;
+  let newLine = 0;
+
+  for (const line of diff.split(/\r?\n/)) {
+    if (line.startsWith('+++ ')) {
+      const target = line.slice(4).split('\t')[0].trim();
+      if (target === '/dev/null') {
+        current = null;
+      } else {
+        const file = target.replace(/^b\//, '');
+        current = result[file] = result[file] || [];
+      }
+      continue;
+    }
+    if (line.startsWith('--- ') || line.startsWith('diff ') || line.startsWith('index ')) continue;
+
+    const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(line);
+    if (hunk) {
+      newLine = parseInt(hunk[1], 10);
+      continue;
+    }
+    if (!current) continue;
+
+    if (line.startsWith('+')) {
+      current.push(newLine++);
+    } else if (line.startsWith(' ')) {
+      newLine++;
+    }
+    // '-' lines and "\ No newline at end of file" do not exist in the new file
+  }
+
+  for (const file of Object.keys(result)) {
+    if (result[file].length === 0) delete result[file];
+  }
+  return result;
+}
+
+/**
+ * Hit count of the innermost statement spanning each line; lines without a statement are absent.
+ */
+function lineHits(data: FileCoverage): Map<number, number> {
+  const spans = Object.entries(data.statementMap || {})
+    .map(([id, loc]) => ({ start: loc.start.line, end: loc.end.line, count: data.s?.[id] ?? 0 }))
+    // Widest first, so narrower statements overwrite the ones enclosing them
+    .sort((a, b) => (b.end - b.start) - (a.end - a.start));
+
+  const hits = new Map<number, number>();
+  for (const span of spans) {
+    for (let line = span.start; line <= span.end; line++) {
+      hits.set(line, span.count);
+    }
+  }
+  return hits;
+}
+
+function toPct(covered: number, coverable: number): number {
+  return coverable === 0 ? 100 : Math.round((covered / coverable) * 10000) / 100;
+}
+
+/**
+ * Maps changed lines (keyed by absolute path) onto the statement maps of the coverage report.
+ */
+export function computePatchCoverage(
+  coverage: CoverageMap,
+  changedLines: Record<string, number[]>,
+  projectRoot: string
+): PatchCoverage {
+  const coverageByPath = new Map(Object.entries(coverage).map(([file, data]) => [path.resolve(file), data]));
+  const files: Record<string, FilePatchCoverage> = {};
+  const filesWithoutCoverage: string[] = [];
+  let totalChanged = 0;
+  let totalCoverable = 0;
+  let totalCovered = 0;
+
+  for (const [file, lines] of Object.entries(changedLines)) {
+    const relative = toRelative(projectRoot, file);
+    const data = coverageByPath.get(path.resolve(file));
+    if (!data) {
+      filesWithoutCoverage.push(relative);
+      continue;
+    }
+
+    const hits = lineHits(data);
+    const sorted = [...new Set(lines)].sort((a, b) => a - b);
+    const coverableLines = sorted.filter(line => hits.has(line));
+    const coveredLines = coverableLines.filter(line => hits.get(line)! > 0);
+    const uncovered = coverableLines.filter(line => hits.get(line) === 0);
+
+    files[relative] = {
+      changedLines: sorted,
+      coveredLines,
+      uncoveredLines: mergeLineRanges(uncovered.map(line => ({ start: { line, column: 0 }, end: { line, column: 0 } }))),
+      coverable: coverableLines.length,
+      covered: coveredLines.length,
+      pct: toPct(coveredLines.length, coverableLines.length)
+    };
+    totalChanged += sorted.length;
+    totalCoverable += coverableLines.length;
+    totalCovered += coveredLines.length;
+  }
+
+  return {
+    files,
+    filesWithoutCoverage: filesWithoutCoverage.sort(),
+    total: {
+      changedLines: totalChanged,
+      coverable: totalCoverable,
+      covered: totalCovered,
+      pct: toPct(totalCovered, totalCoverable)
+    }
+  };
+}
@@ -0,0 +1,174 @@
+import path from 'path';
+import { minimatch } from 'minimatch';
+import type { CoverageMetricName, CoverageThresholds, GlobThresholds, MetricThresholds } from '../config.js';
+import type { CoverageMap, FileCoverage } from './istanbul.js';
+
+export const METRICS: CoverageMetricName[] = ['statements', 'branches', 'functions', 'lines'];
+
+export interface CoverageMetric {
+  total: number;
+  covered: number;
+  pct: number;
+}
+
+export type CoverageMetrics = Record<CoverageMetricName, CoverageMetric>;
+
+export interface CoverageSummary {
+  total: CoverageMetrics;
+  /** Keyed by directory relative to the project root (files directly inside it, like Istanbul's text report) */
+  directories: Record<string, CoverageMetrics>;
+  /** Keyed by file path relative to the project root */
+  files: Record<string, CoverageMetrics>;
+}
+
+export interface ThresholdFailure {
+  /**
+   * `total` for the combined coverage of the files no glob matches, `glob` for that of the files a glob
+   * matches, `file` for a single file when the thresholds are checked per file
+   */
+  scope: 'total' | 'glob' | 'file';
+  file?: string;
+  /** Glob key the threshold came from, when it was not a global one */
+  glob?: string;
+  metric: CoverageMetricName;
+  threshold: number;
+  /** Percentage, or the number of uncovered items for a negative threshold */
+  actual: number;
+}
+
+export interface ThresholdVerdict {
+  passed: boolean;
+  failures: ThresholdFailure[];
+}
+
+/**
+ * Istanbul reports 100% for a metric with nothing to cover.
+ */
+function toMetric(covered: number, total: number): CoverageMetric {
+  return { total, covered, pct: total === 0 ? 100 : Math.round((covered / total) * 10000) / 100 };
+}
+
+/**
+ * Covered/total counts of one file. Line coverage follows Istanbul: a line is covered when
+ * any statement starting on it ran.
+ */
+export function summarizeFile(data: FileCoverage): CoverageMetrics {
+  const statementCounts = Object.values(data.s || {});
+  const functionCounts = Object.values(data.f || {});
+  const branchCounts = Object.values(data.b || {}).flat();
+
+  const lineCounts = [...statementLineHits(data).values()];
+
+  return {
+    statements: toMetric(statementCounts.filter(c => c > 0).length, statementCounts.length),
+    branches: toMetric(branchCounts.filter(c => c > 0).length, branchCounts.length),
+    functions: toMetric(functionCounts.filter(c => c > 0).length, functionCounts.length),
+    lines: toMetric(lineCounts.filter(c => c > 0).length, lineCounts.length)
+  };
+}
+
+/**
+ * Highest hit count of the statements starting on each line; lines without a statement are absent.
+ */
+export function statementLineHits(data: FileCoverage): Map<number, number> {
+  const hits = new Map<number, number>();
+  for (const [id, count] of Object.entries(data.s || {})) {
+    const line = data.statementMap?.[id]?.start.line;
+    if (line === undefined) continue;
+    hits.set(line, Math.max(hits.get(line) ?? 0, count));
+  }
+  return hits;
+}
+
+/**
+ * Adds up the covered/total counts of several files and recomputes the percentages.
+ */
+export function mergeMetrics(metrics: CoverageMetrics[]): CoverageMetrics {
+  const merged = {} as CoverageMetrics;
+  for (const metric of METRICS) {
+    const covered = metrics.reduce((sum, m) => sum + m[metric].covered, 0);
+    const total = metrics.reduce((sum, m) => sum + m[metric].total, 0);
+    merged[metric] = toMetric(covered, total);
+  }
+  return merged;
+}
+
+export function summarizeCoverage(coverage: CoverageMap, projectRoot: string): CoverageSummary {
+  const files: Record<string, CoverageMetrics> = {};
+  const byDirectory = new Map<string, CoverageMetrics[]>();
+
+  for (const [file, data] of Object.entries(coverage)) {
+    const relative = toRelative(projectRoot, file);
+    const metrics = summarizeFile(data);
+    files[relative] = metrics;
+
+    const dir = path.posix.dirname(relative);
+    byDirectory.set(dir, [...(byDirectory.get(dir) || []), metrics]);
+  }
+
+  const directories: Record<string, CoverageMetrics> = {};
+  for (const [dir, metrics] of [...byDirectory.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    directories[dir] = mergeMetrics(metrics);
+  }
+
+  return { total: mergeMetrics(Object.values(files)), directories, files };
+}
+
+export function toRelative(projectRoot: string, file: string): string {
+  const relative = path.isAbsolute(file) ? path.relative(projectRoot, file) : file;
+  return relative.split(path.sep).join('/');
+}
+
+/**
+ * Metric thresholds of `coverage.thresholds` or one of its globs, with `100: true` setting all of them to 100.
+ */
+export function resolveMetricThresholds(thresholds: CoverageThresholds | GlobThresholds): MetricThresholds {
+  const resolved: MetricThresholds = {};
+  for (const metric of METRICS) {
+    const value = (thresholds as Record<string, unknown>)[100] === true ? 100 : thresholds[metric];
+    if (typeof value === 'number') resolved[metric] = value;
+  }
+  return resolved;
+}
+
+/**
+ * Checks coverage against thresholds the way Vitest does: every glob key applies to the files it
+ * matches and the global thresholds to all files no glob matches. Each group is checked as a whole,
+ * or file by file with `perFile: true`. A negative threshold is the number of uncovered items allowed.
+ */
+export function evaluateThresholds(summary: CoverageSummary, thresholds: CoverageThresholds): ThresholdVerdict {
+  const global = resolveMetricThresholds(thresholds);
+  const globs: Array<[string, MetricThresholds]> = [];
+  for (const [key, value] of Object.entries(thresholds)) {
+    if (value && typeof value === 'object') globs.push([key, resolveMetricThresholds(value)]);
+  }
+
+  const files = Object.keys(summary.files);
+  const matched = new Set<string>();
+  const groups = globs.map(([glob, minimums]) => {
+    const globFiles = files.filter(file => minimatch(file, glob, { dot: true }));
+    globFiles.forEach(file => matched.add(file));
+    return { glob, minimums, files: globFiles };
+  });
+  groups.unshift({ glob: '', minimums: global, files: files.filter(file => !matched.has(file)) });
+
+  const failures: ThresholdFailure[] = [];
+  for (const { glob, minimums, files: groupFiles } of groups) {
+    const checks: Array<[Pick<ThresholdFailure, 'scope' | 'file' | 'glob'>, CoverageMetrics]> = thresholds.perFile === true
+      ? groupFiles.map(file => [{ scope: 'file', file, ...(glob && { glob }) }, summary.files[file]])
+      : [[glob ? { scope: 'glob', glob } : { scope: 'total' }, mergeMetrics(groupFiles.map(file => summary.files[file]))]];
+    for (const [where, metrics] of checks) {
+      for (const metric of METRICS) {
+        const threshold = minimums[metric];
+        if (threshold === undefined) continue;
+        const { total, covered, pct } = metrics[metric];
+        const actual = threshold < 0 ? total - covered : pct;
+        if (threshold < 0 ? actual > -threshold : actual < threshold) {
+          failures.push({ ...where, metric, threshold, actual });
+        }
+      }
+    }
+  }
+
+  return { passed: failures.length === 0, failures };
+}
@@ -3,42 +3,33 @@ import cors from 'cors';
 import pino from 'pino';
 import fs from 'fs-extra';
 import path from 'path';
-import { loadPlugins } from './plugins/loader.js';
+import { getConfig, loadConfigFile } from './config.js';
+import { getPluginStatuses, getRegisteredTools, loadPlugins } from './plugins/loader.js';
+import { redirectConsoleToStderr, registerStreamableHttp, startStdioServer } from './mcp/server.js';
+import { authenticate, isAuthEnabled, requireScope, toolScope } from './services/auth.js';
 
-// Initialize logger
+// MCP clients that spawn the server talk to it over stdin/stdout
+const useStdio = process.argv.includes('--stdio') || process.env.MCP_TRANSPORT === 'stdio';
+if (useStdio) redirectConsoleToStderr();
+
+// Initialize logger (stdout is reserved for the protocol in stdio mode)
 const logger = pino({
   level: process.env.LOG_LEVEL || 'info',
   transport: {
     target: 'pino-pretty',
-    options: { colorize: true }
+    options: { colorize: !useStdio, destination: useStdio ? 2 : 1 }
   }
 });
 
 // Load configuration
-let config = {
-  projectRoot: process.cwd(),
-  port: parseInt(process.env.PORT || '3000'),
-  logLevel: process.env.LOG_LEVEL || 'info',
-  corsOrigins: ['http://localhost:3000', 'http://127.0.0.1:3000'],
-  coverageThresholds: {
-    statements: 100,
-    branches: 100,
-    functions: 100,
-    lines: 100
-  }
-};
-
-// Try to load config from file
 try {
-  const configPath = path.join(process.cwd(), 'mcp.config.json');
-  if (await fs.pathExists(configPath)) {
-    const fileConfig = await fs.readJSON(configPath);
-    config = { ...config, ...fileConfig };
+  if (await loadConfigFile()) {
     logger.info('Loaded configuration from mcp.config.json');
   }
 } catch (error) {
   logger.warn('Failed to load mcp.config.json, using defaults');
 }
+const config = getConfig();
 
 // Initialize Express app
 const app = express();
@@ -59,6 +50,7 @@ app.use((req, res, next) => {
     logger.info({
       method: req.method,
       url: req.url,
+      client: req.auth?.clientId,
       statusCode: res.statusCode,
       duration
     }, 'Request completed');
@@ -67,6 +59,9 @@ app.use((req, res, next) => {
   next();
 });
 
+// Bearer tokens from mcp.config.json `auth`; routes check the scope they need
+app.use(authenticate);
+
 // Error handling middleware
 app.use((error: any, _req: Request, res: Response, next: NextFunction) => {
   logger.error({
@@ -84,9 +79,11 @@ app.use((error: any, _req: Request, res: Response, next: NextFunction) => {
 });
 
 // Health check endpoint with detailed status
-app.get('/health', async (_req: Request, res: Response) => {
+app.get('/health', requireScope('read'), async (_req: Request, res: Response) => {
+  const plugins = getPluginStatuses();
+  const failedPlugins = plugins.filter(p => p.status === 'failed');
   const health = {
-    status: 'healthy',
+    status: failedPlugins.length > 0 ? 'degraded' : 'healthy',
     timestamp: new Date().toISOString(),
     uptime: process.uptime(),
     version: '2.0.0',
@@ -94,19 +91,21 @@ app.get('/health', async (_req: Request, res: Response) => {
     config: {
       projectRoot: config.projectRoot,
       port: config.port,
-      logLevel: config.logLevel
+      logLevel: config.logLevel,
+      auth: isAuthEnabled()
     },
     features: {
       aiTests: !!process.env.OPENAI_API_KEY,
-      pluginsLoaded: true
-    }
+      pluginsLoaded: plugins.some(p => p.status === 'loaded') && failedPlugins.length === 0
+    },
+    plugins
   };
   
   res.json(health);
 });
 
 // Basic API info endpoint
-app.get('/api', (_req: Request, res: Response) => {
+app.get('/api', requireScope('read'), (_req: Request, res: Response) => {
   res.json({
     name: 'Vitest Coverage MCP Server',
     version: '2.0.0',
@@ -114,8 +113,18 @@ app.get('/api', (_req: Request, res: Response) => {
     endpoints: [
       '/health - Server health check',
       '/api - This endpoint',
-      'Plugin endpoints loaded dynamically from src/tools/'
+      '/mcp - Model Context Protocol (streamable HTTP transport)',
+      'Plugin endpoints loaded dynamically from tools/ and mcp.config.json plugins'
     ],
+    tools: getRegisteredTools().map(tool => ({
+      name: tool.name,
+      plugin: tool.plugin,
+      description: tool.description,
+      endpoint: `${tool.http.method.toUpperCase()} ${tool.http.path}`,
+      scope: toolScope(tool),
+      inputSchema: tool.inputSchema,
+      outputSchema: tool.outputSchema
+    })),
     documentation: 'See README.md for full API documentation'
   });
 });
@@ -124,12 +133,20 @@ app.get('/api', (_req: Request, res: Response) => {
 async function initializeServer() {
   try {
     logger.info('Loading plugins...');
-    await loadPlugins(app);
+    await loadPlugins(app, config.plugins);
+
+    if (useStdio) {
+      await startStdioServer();
+      logger.info('MCP Vitest Coverage server v2.0.0 listening on stdio');
+      return;
+    }
+
+    registerStreamableHttp(app);
     
     // Add static file serving for coverage reports
     const coverageDir = path.join(process.cwd(), 'coverage');
     if (await fs.pathExists(coverageDir)) {
-      app.use('/coverage', express.static(coverageDir, {
+      app.use('/coverage', requireScope('read'), express.static(coverageDir, {
         index: 'index.html',
         setHeaders: (res) => {
           res.set('Cache-Control', 'public, max-age=3600');
@@ -142,8 +159,15 @@ async function initializeServer() {
     const PORT = config.port;
     app.listen(PORT, () => {
       logger.info(`MCP Vitest Coverage server v2.0.0 listening on http://localhost:${PORT}`);
+      logger.info(`MCP endpoint: http://localhost:${PORT}/mcp`);
       logger.info(`Project root: ${config.projectRoot}`);
       logger.info(`Log level: ${config.logLevel}`);
+
+      if (isAuthEnabled()) {
+        logger.info(`Bearer token authentication enabled for ${config.auth!.tokens.length} client(s)`);
+      } else {
+        logger.warn('No auth tokens configured - every client can call every tool');
+      }
       
       if (process.env.OPENAI_API_KEY) {
         logger.info('OpenAI API key detected - AI features enabled');
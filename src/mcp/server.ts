@@ -0,0 +1,201 @@
+import { randomUUID } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  isInitializeRequest,
+  ServerNotification,
+  ServerRequest
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Express, Request, Response } from 'express';
+import { getRegisteredTools, RegisteredTool, startToolJob } from '../plugins/loader.js';
+import { assertToolScope } from '../services/auth.js';
+import { cancelJob, subscribeToJob, waitForJob } from '../services/jobs.js';
+import { formatFieldErrors, validateInput } from '../plugins/validation.js';
+
+const SERVER_INFO = { name: 'vitest-coverage-mcp-server', version: '2.0.0' };
+
+/**
+ * Creates an MCP server exposing every tool registered by the plugin loader.
+ * A server instance can only be connected to one transport, so one is created per session.
+ */
+export function createMcpServer(): Server {
+  const server = new Server(SERVER_INFO, { capabilities: { tools: {} } });
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: getRegisteredTools().map(({ name, description, inputSchema, outputSchema }) => ({
+      name,
+      description,
+      inputSchema,
+      ...(outputSchema && { outputSchema })
+    }))
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const tool = getRegisteredTools().find(t => t.name === request.params.name);
+    if (!tool) {
+      return {
+        isError: true,
+        content: [{ type: 'text', text: `Unknown tool: ${request.params.name}` }]
+      };
+    }
+
+    const validation = validateInput(tool.inputSchema, request.params.arguments);
+    if (!validation.valid) {
+      return {
+        isError: true,
+        content: [{ type: 'text', text: `Invalid input for ${tool.name}: ${formatFieldErrors(validation.errors)}` }]
+      };
+    }
+
+    try {
+      // authInfo is the client authenticated on the HTTP request; stdio calls have none
+      assertToolScope(tool, extra.authInfo, validation.value);
+      const result = tool.background
+        ? await runAsJob(tool, validation.value, extra)
+        : await tool.handler(validation.value, { signal: extra.signal, progress: () => undefined, auth: extra.authInfo });
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        // Tools that declare an output schema must also return structured content
+        ...(tool.outputSchema && { structuredContent: result as Record<string, unknown> })
+      };
+    } catch (e) {
+      return {
+        isError: true,
+        content: [{ type: 'text', text: formatToolError(e) }]
+      };
+    }
+  });
+
+  return server;
+}
+
+/**
+ * Runs a background tool through the job queue so it is serialized with HTTP jobs on the same
+ * project, and waits for it. Progress is forwarded as MCP progress notifications when the client
+ * asked for them, and cancelling the request cancels the job.
+ */
+async function runAsJob(tool: RegisteredTool, input: unknown, extra: RequestHandlerExtra<ServerRequest, ServerNotification>) {
+  const job = startToolJob(tool, input, extra.authInfo);
+  const progressToken = extra._meta?.progressToken;
+  let progress = 0;
+
+  const unsubscribe = subscribeToJob(job.id, (event) => {
+    if (progressToken === undefined || event.type !== 'progress') return;
+    extra.sendNotification({
+      method: 'notifications/progress',
+      params: { progressToken, progress: ++progress, message: event.message }
+    }).catch(() => undefined);
+  });
+  const onAbort = () => cancelJob(job.id);
+  extra.signal.addEventListener('abort', onAbort);
+
+  try {
+    const finished = await waitForJob(job);
+    if (finished.status === 'cancelled') throw new Error(`Job ${job.id} was cancelled`);
+    if (finished.status === 'failed') throw finished.error;
+    return finished.result;
+  } finally {
+    unsubscribe();
+    extra.signal.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Several tool implementations reject with plain `{ error, stderr }` objects rather than Errors.
+ */
+function formatToolError(e: unknown): string {
+  if (e instanceof Error) return e.message;
+  if (e && typeof e === 'object') return JSON.stringify(e, null, 2);
+  return String(e);
+}
+
+/**
+ * Sends console.log and console.info output to stderr. In stdio mode anything else written to
+ * stdout corrupts the protocol stream, so this has to happen before plugins are loaded.
+ */
+export function redirectConsoleToStderr() {
+  console.log = console.error;
+  console.info = console.error;
+}
+
+/**
+ * Serves MCP over stdin/stdout, with console output redirected to stderr.
+ */
+export async function startStdioServer(): Promise<Server> {
+  redirectConsoleToStderr();
+
+  const server = createMcpServer();
+  await server.connect(new StdioServerTransport());
+  return server;
+}
+
+/**
+ * Mounts the MCP streamable HTTP transport on `/mcp` with one session per initialize request.
+ * A session can only be used by the client that opened it.
+ */
+export function registerStreamableHttp(app: Express, endpoint = '/mcp') {
+  const transports = new Map<string, StreamableHTTPServerTransport>();
+  const sessionClients = new Map<string, string | undefined>();
+
+  const isOtherClient = (req: Request, sessionId: string | undefined) =>
+    !!sessionId && transports.has(sessionId) && sessionClients.get(sessionId) !== req.auth?.clientId;
+
+  app.post(endpoint, async (req: Request, res: Response) => {
+    const sessionId = req.header('mcp-session-id');
+    if (isOtherClient(req, sessionId)) {
+      return res.status(403).json({
+        jsonrpc: '2.0',
+        error: { code: -32000, message: 'Forbidden: session belongs to another client' },
+        id: null
+      });
+    }
+    let transport = sessionId ? transports.get(sessionId) : undefined;
+
+    if (!transport) {
+      if (sessionId || !isInitializeRequest(req.body)) {
+        return res.status(400).json({
+          jsonrpc: '2.0',
+          error: { code: -32000, message: 'Bad Request: No valid session ID provided' },
+          id: null
+        });
+      }
+
+      const newTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          transports.set(id, newTransport);
+          sessionClients.set(id, req.auth?.clientId);
+        }
+      });
+      newTransport.onclose = () => {
+        if (!newTransport.sessionId) return;
+        transports.delete(newTransport.sessionId);
+        sessionClients.delete(newTransport.sessionId);
+      };
+      await createMcpServer().connect(newTransport);
+      transport = newTransport;
+    }
+
+    await transport.handleRequest(req, res, req.body);
+  });
+
+  // GET opens the server-to-client notification stream, DELETE ends the session
+  const handleSessionRequest = async (req: Request, res: Response) => {
+    const sessionId = req.header('mcp-session-id');
+    const transport = sessionId ? transports.get(sessionId) : undefined;
+    if (!transport) {
+      return res.status(400).send('Invalid or missing session ID');
+    }
+    if (isOtherClient(req, sessionId)) {
+      return res.status(403).send('Session belongs to another client');
+    }
+    await transport.handleRequest(req, res);
+  };
+
+  app.get(endpoint, handleSessionRequest);
+  app.delete(endpoint, handleSessionRequest);
+}
@@ -1,40 +1,320 @@
 import fs from 'fs-extra';
 import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import type { Express, Request, Response } from 'express';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { ToolContext, ToolDefinition, ToolError, ToolModule } from './types.js';
+import { validateInput } from './validation.js';
+import { getConfig } from '../config.js';
+import { assertToolScope, auditCall, toolScope } from '../services/auth.js';
+import { cancelJob, enqueueJob, isFinished, Job, waitForJob } from '../services/jobs.js';
+import { resolveProjectRoot } from '../services/projects.js';
 
-type ToolModule = {
-  name: string;
-  router: (app: any) => void; // Express app
+export type RegisteredTool = ToolDefinition & {
+  plugin: string;
+  http: NonNullable<ToolDefinition['http']>;
 };
 
-export async function loadPlugins(app: any, pluginsDir = path.join(__dirname, '..', 'tools')) {
-  if (!(await fs.pathExists(pluginsDir))) {
+export interface PluginLoaderOptions {
+  /** Directory of built-in tools. Defaults to `../tools` next to this file (src/ under tsx, dist/ when built) */
+  pluginsDir?: string;
+  /** Extra plugins to load: npm package names or absolute paths */
+  packages?: string[];
+  /** When set, only plugins with these names are registered */
+  enabled?: string[];
+  /** Plugins with these names are never registered */
+  disabled?: string[];
+}
+
+export interface PluginStatus {
+  /** Plugin name, or the file/package it came from when it failed before exporting one */
+  name: string;
+  source: string;
+  status: 'loaded' | 'disabled' | 'failed';
+  tools: string[];
+  error?: string;
+}
+
+const registeredTools: RegisteredTool[] = [];
+const pluginStatuses: PluginStatus[] = [];
+
+// Compiled builds contain .js files, tsx runs the .ts sources directly
+const PLUGIN_EXTENSIONS = ['.js', '.mjs', '.ts'];
+
+/**
+ * All tools declared by loaded plugins, in load order.
+ */
+export function getRegisteredTools(): RegisteredTool[] {
+  return registeredTools;
+}
+
+/**
+ * Load result of every plugin the loader attempted, for `/health`.
+ */
+export function getPluginStatuses(): PluginStatus[] {
+  return pluginStatuses;
+}
+
+export async function loadPlugins(app: Express, options: PluginLoaderOptions = {}) {
+  const pluginsDir = options.pluginsDir || fileURLToPath(new URL('../tools', import.meta.url));
+  const sources: string[] = [];
+
+  if (await fs.pathExists(pluginsDir)) {
+    const files = await fs.readdir(pluginsDir);
+    for (const file of files) {
+      if (!isPluginFile(file)) continue;
+      sources.push(path.join(pluginsDir, file));
+    }
+  } else {
     console.log(`Plugins directory ${pluginsDir} does not exist`);
-    return;
   }
 
-  const files = await fs.readdir(pluginsDir);
-  
-  for (const file of files) {
-    if (!file.endsWith('.ts') || file === 'index.ts' || file.startsWith('.')) continue;
-    
-    const fullPath = path.join(pluginsDir, file);
-    
+  sources.push(...(options.packages || []));
+
+  for (const source of sources) {
+    await loadPlugin(app, source, options);
+  }
+}
+
+function isPluginFile(file: string): boolean {
+  if (file.startsWith('.') || file.endsWith('.d.ts')) return false;
+  const ext = path.extname(file);
+  return PLUGIN_EXTENSIONS.includes(ext) && path.basename(file, ext) !== 'index';
+}
+
+async function loadPlugin(app: Express, source: string, options: PluginLoaderOptions) {
+  const status: PluginStatus = {
+    name: path.isAbsolute(source) ? path.basename(source) : source,
+    source,
+    status: 'failed',
+    tools: []
+  };
+  pluginStatuses.push(status);
+
+  try {
+    // Absolute paths must be imported as file URLs; bare names resolve through node_modules
+    const module = await import(path.isAbsolute(source) ? pathToFileURL(source).href : source);
+    const plugin = module.default as ToolModule | undefined;
+
+    if (!plugin || !(Array.isArray(plugin.tools) || typeof plugin.router === 'function')) {
+      throw new Error('does not export a valid default module with tools or a router function');
+    }
+
+    status.name = plugin.name;
+    if (!isPluginEnabled(plugin.name, options)) {
+      status.status = 'disabled';
+      console.log(`Skipping disabled plugin: ${plugin.name}`);
+      return;
+    }
+
+    console.log(`Loading plugin: ${plugin.name}`);
+    status.tools = registerPlugin(app, plugin);
+    status.status = 'loaded';
+  } catch (error) {
+    status.error = (error as Error).message || String(error);
+    console.error(`Failed to load plugin ${source}:`, error);
+  }
+}
+
+function isPluginEnabled(name: string, { enabled, disabled }: PluginLoaderOptions): boolean {
+  if (disabled?.includes(name)) return false;
+  return !enabled || enabled.includes(name);
+}
+
+/**
+ * Registers a plugin's declared tools as validated JSON routes, then any extra routes it defines itself.
+ * Returns the names of the tools that were registered.
+ */
+export function registerPlugin(app: Express, plugin: ToolModule): string[] {
+  const names: string[] = [];
+  for (const tool of plugin.tools || []) {
+    if (registeredTools.some(t => t.name === tool.name)) {
+      console.warn(`Tool ${tool.name} from plugin ${plugin.name} is already registered, skipping`);
+      continue;
+    }
+
+    const registered: RegisteredTool = {
+      ...withAudit(withProjectId(tool)),
+      plugin: plugin.name,
+      http: tool.http || { method: 'post', path: `/tools/${tool.name}` }
+    };
+    registeredTools.push(registered);
+    names.push(tool.name);
+    app[registered.http.method](registered.http.path, createToolRoute(registered));
+  }
+
+  plugin.router?.(app);
+  return names;
+}
+
+/**
+ * Lets every tool that takes a `projectPath` be called with the ID of a registered project instead.
+ * The ID is resolved to `projectPath` before the handler runs. A required `projectPath` falls back
+ * to `defaultProject` when neither is given, and is still required when there is none.
+ */
+function withProjectId(tool: ToolDefinition): ToolDefinition {
+  if (!tool.inputSchema.properties.projectPath) return tool;
+  const required = tool.inputSchema.required?.includes('projectPath');
+
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        projectId: { type: 'string', description: 'ID of a registered project (see /projects), instead of projectPath' }
+      },
+      required: tool.inputSchema.required?.filter(name => name !== 'projectPath')
+    },
+    handler: async ({ projectId, ...input }, context) => {
+      if (projectId && input.projectPath) {
+        throw new ToolError('Pass either projectId or projectPath, not both', 400);
+      }
+      if (required && !projectId && !input.projectPath && !getConfig().defaultProject) {
+        throw new ToolError(`projectPath or projectId is required by ${tool.name}`, 400);
+      }
+      // Resolving also keeps the project inside the allowed roots
+      const projectPath = (projectId || input.projectPath || required)
+        ? resolveProjectRoot({ projectId, projectPath: input.projectPath })
+        : undefined;
+      return tool.handler({ ...input, projectPath }, context);
+    }
+  };
+}
+
+/**
+ * Records calls of write-scoped tools that run right away in the audit log. Background tools are
+ * audited by `startToolJob`, since a cancelled job may never reach its handler.
+ */
+function withAudit(tool: ToolDefinition): ToolDefinition {
+  if (tool.background || toolScope(tool) !== 'write') return tool;
+
+  return {
+    ...tool,
+    handler: async (input, context) => {
+      const client = context.auth?.clientId || 'stdio';
+      try {
+        const result = await tool.handler(input, context);
+        auditCall({ client, tool: tool.name, outcome: 'succeeded', input });
+        return result;
+      } catch (e) {
+        auditCall({ client, tool: tool.name, outcome: 'failed', input, error: errorMessage(e) });
+        throw e;
+      }
+    }
+  };
+}
+
+/**
+ * Queues a background tool as a job. Jobs are serialized per project, or per default project
+ * for tools without one. Unknown projects and paths outside the allowed roots throw a ToolError
+ * right away rather than failing the job. `auth` is the calling client, handed to the tool
+ * and recorded in the audit log for write-scoped tools.
+ */
+export function startToolJob(tool: ToolDefinition, input: any, auth?: AuthInfo): Job {
+  const projectRoot = resolveProjectRoot({ projectId: input?.projectId, projectPath: input?.projectPath });
+  const job = enqueueJob(tool.name, projectRoot, context => tool.handler(input, { ...context, auth }), auth?.clientId);
+
+  if (toolScope(tool) === 'write') {
+    waitForJob(job).then(finished => auditCall({
+      client: auth?.clientId || 'stdio',
+      tool: tool.name,
+      outcome: finished.status as 'succeeded' | 'failed' | 'cancelled',
+      input,
+      jobId: job.id,
+      ...(finished.error && { error: finished.error.message })
+    })).catch(error => console.error(`Could not audit job ${job.id} (${tool.name}):`, error));
+  }
+  return job;
+}
+
+function errorMessage(e: unknown): string {
+  return (e as any)?.message || (e as any)?.error || String(e);
+}
+
+function createToolRoute(tool: RegisteredTool) {
+  return async (req: Request, res: Response) => {
+    const fromQuery = tool.http.method !== 'post';
+    const { wait, ...query } = req.query;
+    const input = { ...(fromQuery ? query : req.body), ...req.params };
     try {
-      // Dynamic import - in Node ESM you can use createRequire or top-level await
-      const module = await import(fullPath);
-      
-      if (module.default && typeof module.default.router === 'function') {
-        console.log(`Loading plugin: ${module.default.name}`);
-        
-        // Call the router to register routes
-        module.default.router(app);
-      } else {
-        console.warn(`Plugin ${file} does not export a valid default module with router function`);
-      }
-    } catch (error) {
-      console.error(`Failed to load plugin ${file}:`, error);
+      assertToolScope(tool, req.auth, input);
+    } catch (e) {
+      return sendError(res, e);
     }
+
+    const validation = validateInput(tool.inputSchema, input, { coerceTypes: fromQuery });
+    if (!validation.valid) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid input for ${tool.name}`,
+        fields: validation.errors
+      });
+    }
+
+    if (tool.background) {
+      let job: Job;
+      try {
+        job = startToolJob(tool, validation.value, req.auth);
+      } catch (e) {
+        return sendError(res, e);
+      }
+      if (wait !== 'true') {
+        return res.status(202).json({
+          success: true,
+          jobId: job.id,
+          status: job.status,
+          statusUrl: `/jobs/${job.id}`,
+          eventsUrl: `/jobs/${job.id}/events`
+        });
+      }
+
+      // Waiting callers that hang up take their job with them
+      res.on('close', () => {
+        if (!isFinished(job)) cancelJob(job.id);
+      });
+      const finished = await waitForJob(job);
+      if (finished.status === 'succeeded') {
+        return res.json({ success: true, ...toResponseBody(finished.result) });
+      }
+      if (finished.status === 'cancelled') {
+        return res.status(409).json({ success: false, error: `Job ${job.id} was cancelled`, jobId: job.id });
+      }
+      const { message, statusCode, ...details } = finished.error!;
+      return res.status(statusCode || 500).json({ success: false, error: message, ...details });
+    }
+
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+
+    try {
+      const context: ToolContext = { signal: controller.signal, progress: () => undefined, auth: req.auth };
+      const result = await tool.handler(validation.value, context);
+      res.json({ success: true, ...toResponseBody(result) });
+    } catch (e) {
+      console.error(`Tool ${tool.name} failed:`, e);
+      if (e instanceof ToolError) {
+        return res.status(e.statusCode).json({ success: false, error: e.message, ...e.details });
+      }
+      // Some implementations reject with plain `{ error, stderr }` objects
+      res.status(500).json({ success: false, error: (e as any).message || (e as any).error || e });
+    }
+  };
+}
+
+/**
+ * Answers with the status of a ToolError, or 500 for anything else. The route handlers are async,
+ * so an error thrown out of them would never reach Express 4 and leave the request hanging.
+ */
+function sendError(res: Response, e: unknown) {
+  if (e instanceof ToolError) {
+    return res.status(e.statusCode).json({ success: false, error: e.message, ...e.details });
   }
+  return res.status(500).json({ success: false, error: errorMessage(e) });
+}
+
+function toResponseBody(result: unknown): object {
+  return result && typeof result === 'object' && !Array.isArray(result) ? result : { result };
 }
 
-export { ToolModule };
\ No newline at end of file
+export type { ToolModule, ToolDefinition };
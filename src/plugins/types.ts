@@ -0,0 +1,74 @@
+import type { Express } from 'express';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { Scope } from '../config.js';
+
+export type JsonSchema = {
+  type: 'object';
+  properties: Record<string, any>;
+  required?: string[];
+  additionalProperties?: boolean;
+};
+
+/**
+ * A single tool declared by a plugin. The loader turns it into an HTTP route
+ * with request validation, an `/api` listing entry and an MCP tool.
+ */
+export interface ToolDefinition<Input = any, Output = unknown> {
+  /** Tool name as exposed over MCP, e.g. `analyze_coverage` */
+  name: string;
+  description: string;
+  /**
+   * Route to serve the tool on. Defaults to `POST /tools/<name>`. GET and DELETE read their input
+   * from the query string; route parameters (`/jobs/:id`) are merged into the input for every method.
+   */
+  http?: { method: 'get' | 'post' | 'delete'; path: string };
+  inputSchema: JsonSchema;
+  outputSchema?: JsonSchema;
+  /**
+   * Long-running tools (test runs, LLM calls) run as background jobs, one at a time per project.
+   * Their HTTP route answers 202 with a job ID unless `?wait=true` is passed.
+   */
+  background?: boolean;
+  /**
+   * Scope a client's token needs to call the tool: `read` for reports, `analyze` for test runs,
+   * `write` for tools that install packages or write files. Defaults to `write`.
+   */
+  scope?: Scope;
+  handler: (input: Input, context: ToolContext) => Promise<Output>;
+}
+
+/**
+ * Passed to every handler. `signal` aborts when the job is cancelled or the caller goes away;
+ * pass it on to child processes so they are killed.
+ */
+export interface ToolContext {
+  signal: AbortSignal;
+  /** Reports progress to job pollers and streams */
+  progress: (message: string, data?: Record<string, unknown>) => void;
+  /** Client that called the tool; unset over stdio */
+  auth?: AuthInfo;
+}
+
+/**
+ * Default export of every plugin module. `router` is only needed for routes that
+ * are not plain JSON tools (SVG badges, HTML pages, health checks).
+ */
+export interface ToolModule {
+  name: string;
+  tools?: ToolDefinition[];
+  router?: (app: Express) => void;
+}
+
+/**
+ * Thrown by tool handlers to fail with a specific HTTP status and extra response fields.
+ */
+export class ToolError extends Error {
+  constructor(message: string, public statusCode = 500, public details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
+
+export function defineTool<Input = any, Output = unknown>(tool: ToolDefinition<Input, Output>): ToolDefinition<Input, Output> {
+  return tool;
+}
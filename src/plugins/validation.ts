@@ -0,0 +1,59 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import type { JsonSchema } from './types.js';
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// Query strings arrive as text, so only those get their scalars coerced. A parameter given
+// once where the schema expects an array is wrapped into one.
+const validators = {
+  strict: createValidatorCache(false),
+  coercing: createValidatorCache('array')
+};
+
+function createValidatorCache(coerceTypes: boolean | 'array') {
+  const ajv = new Ajv({ allErrors: true, useDefaults: true, coerceTypes, strict: false });
+  const compiled = new WeakMap<JsonSchema, ValidateFunction>();
+  return (schema: JsonSchema) => {
+    let validate = compiled.get(schema);
+    if (!validate) {
+      validate = ajv.compile(schema);
+      compiled.set(schema, validate);
+    }
+    return validate;
+  };
+}
+
+/**
+ * Validates tool input against its JSON Schema. Returns the input with defaults applied,
+ * or the list of offending fields.
+ */
+export function validateInput(schema: JsonSchema, input: unknown, options: { coerceTypes?: boolean } = {}):
+  { valid: true; value: Record<string, any> } | { valid: false; errors: FieldError[] } {
+  const validate = (options.coerceTypes ? validators.coercing : validators.strict)(schema);
+
+  const value = structuredClone(input ?? {}) as Record<string, any>;
+  if (validate(value)) {
+    return { valid: true, value };
+  }
+  return { valid: false, errors: (validate.errors || []).map(toFieldError) };
+}
+
+function toFieldError(error: ErrorObject): FieldError {
+  const segments = error.instancePath.split('/').filter(Boolean);
+  if (error.keyword === 'required') {
+    segments.push(error.params.missingProperty);
+  } else if (error.keyword === 'additionalProperties') {
+    segments.push(error.params.additionalProperty);
+  }
+  return {
+    field: segments.join('.') || '(root)',
+    message: error.message || 'is invalid'
+  };
+}
+
+export function formatFieldErrors(errors: FieldError[]): string {
+  return errors.map(e => `${e.field}: ${e.message}`).join('; ');
+}
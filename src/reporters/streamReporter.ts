@@ -0,0 +1,165 @@
+import type { File, Task, TaskResult, TaskResultPack } from 'vitest';
+import type { Vitest } from 'vitest/node';
+import type { Reporter } from 'vitest/reporters';
+
+/**
+ * Vitest reporter that writes one JSON event per line to stdout, prefixed with EVENT_MARKER so the
+ * server can tell events apart from anything else printed. Vitest loads this file into the tested
+ * project's process, so it must not import anything at runtime.
+ */
+export const EVENT_MARKER = '\u001evitest-mcp:';
+
+export interface TestEvent {
+  type: 'test-passed' | 'test-failed' | 'test-skipped';
+  /** Relative to the project root */
+  file: string;
+  name: string;
+  /** Suite names and the test name joined with ` > ` */
+  fullName: string;
+  duration?: number;
+  error?: { message: string; stack?: string; expected?: unknown; actual?: unknown; diff?: string };
+}
+
+export interface RunFinishedEvent {
+  type: 'run-finished';
+  passed: number;
+  failed: number;
+  skipped: number;
+  duration: number;
+  /** Errors outside of tests, e.g. unhandled rejections */
+  errors: string[];
+}
+
+export type StreamEvent =
+  | { type: 'run-started'; files: string[] }
+  | { type: 'file-started'; file: string }
+  | { type: 'file-finished'; file: string; state: string; duration?: number }
+  | TestEvent
+  | RunFinishedEvent;
+
+export default class StreamReporter implements Reporter {
+  private ctx?: Vitest;
+  private startedAt = Date.now();
+  private startedFiles = new Set<string>();
+  private finishedFiles = new Set<string>();
+  private reportedTests = new Set<string>();
+  private counts = { passed: 0, failed: 0, skipped: 0 };
+
+  onInit(ctx: Vitest) {
+    this.ctx = ctx;
+    this.startedAt = Date.now();
+  }
+
+  onPathsCollected(paths: string[] = []) {
+    const root = this.ctx?.config.root;
+    emit({ type: 'run-started', files: paths.map(file => relative(root, file)) });
+  }
+
+  onTaskUpdate(packs: TaskResultPack[]) {
+    const files: Array<[File, TaskResult]> = [];
+    for (const [id, result] of packs) {
+      const task = this.ctx?.state.idMap.get(id);
+      if (!task || !result) continue;
+
+      if (isFile(task)) {
+        files.push([task, result]);
+      } else if (task.type === 'test' || task.type === 'custom') {
+        this.reportTest(task, result);
+      }
+    }
+    // Updates are batched; a file's own update can arrive alongside its tests' and must come last
+    for (const [file, result] of files) this.reportFile(file, result);
+  }
+
+  onFinished(files: File[] = [], errors: unknown[] = []) {
+    // The last updates may not have been flushed
+    for (const file of files) {
+      for (const test of collectTests(file)) this.reportTest(test, test.result);
+      if (file.result) this.reportFile(file, file.result);
+    }
+
+    emit({
+      type: 'run-finished',
+      ...this.counts,
+      duration: Date.now() - this.startedAt,
+      errors: errors.map(error => (error as Error)?.message || String(error))
+    });
+  }
+
+  private reportFile(file: File, result: TaskResult) {
+    if (!this.startedFiles.has(file.id)) {
+      this.startedFiles.add(file.id);
+      emit({ type: 'file-started', file: file.name });
+    }
+    if ((result.state === 'pass' || result.state === 'fail') && !this.finishedFiles.has(file.id)) {
+      this.finishedFiles.add(file.id);
+      // Skipped and todo tests never get an update of their own
+      for (const test of collectTests(file)) this.reportTest(test, test.result);
+      emit({ type: 'file-finished', file: file.name, state: result.state, duration: result.duration });
+    }
+  }
+
+  private reportTest(test: Task, result?: TaskResult) {
+    if (this.reportedTests.has(test.id)) return;
+
+    const state = result?.state ?? test.mode;
+    const skipped = state === 'skip' || state === 'todo';
+    if (state !== 'pass' && state !== 'fail' && !skipped) return;
+    this.reportedTests.add(test.id);
+
+    if (test.file && !this.startedFiles.has(test.file.id)) {
+      this.startedFiles.add(test.file.id);
+      emit({ type: 'file-started', file: test.file.name });
+    }
+
+    const error = result?.errors?.[0];
+    const type = skipped ? 'test-skipped' : state === 'pass' ? 'test-passed' : 'test-failed';
+    this.counts[skipped ? 'skipped' : state === 'pass' ? 'passed' : 'failed']++;
+
+    emit({
+      type,
+      file: test.file?.name ?? '',
+      name: test.name,
+      fullName: fullName(test),
+      duration: result?.duration,
+      ...(type === 'test-failed' && error && {
+        error: {
+          message: error.message,
+          stack: error.stack || error.stackStr,
+          expected: error.expected,
+          actual: error.actual,
+          diff: error.diff
+        }
+      })
+    });
+  }
+}
+
+function emit(event: StreamEvent) {
+  process.stdout.write(`${EVENT_MARKER}${JSON.stringify(event)}\n`);
+}
+
+export function isFile(task: Task): task is File {
+  return task.type === 'suite' && 'filepath' in task;
+}
+
+export function collectTests(task: Task): Task[] {
+  if (task.type === 'suite') return task.tasks.flatMap(collectTests);
+  return [task];
+}
+
+/**
+ * Suite names and the test name joined with ` > `, without the file.
+ */
+export function fullName(test: Task): string {
+  const names = [test.name];
+  for (let suite = test.suite; suite && !isFile(suite); suite = suite.suite) {
+    // The file's root suite has no name
+    if (suite.name) names.unshift(suite.name);
+  }
+  return names.join(' > ');
+}
+
+function relative(root: string | undefined, file: string): string {
+  return root && file.startsWith(`${root}/`) ? file.slice(root.length + 1) : file;
+}
@@ -0,0 +1,140 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import type { NextFunction, Request, Response } from 'express';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { getConfig, Scope } from '../config.js';
+import { ToolDefinition, ToolError } from '../plugins/types.js';
+import { ensureStateDirectory, STATE_DIRECTORY } from './stateDirectory.js';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    /** Client that sent the request, set by `authenticate`. The MCP transport passes it on as `authInfo` */
+    auth?: AuthInfo;
+  }
+}
+
+export interface AuditEntry {
+  timestamp: string;
+  client: string;
+  /** Tool name, or method and path of a plugin route */
+  tool: string;
+  outcome: 'succeeded' | 'failed' | 'cancelled' | 'denied';
+  input?: unknown;
+  jobId?: string;
+  error?: string;
+}
+
+export const SCOPES: Scope[] = ['read', 'analyze', 'write'];
+
+/** Caller of every request while no tokens are configured */
+const ANONYMOUS: AuthInfo = { token: '', clientId: 'anonymous', scopes: SCOPES };
+
+let auditQueue = Promise.resolve();
+
+export function isAuthEnabled(): boolean {
+  return (getConfig().auth?.tokens?.length ?? 0) > 0;
+}
+
+/**
+ * The client a bearer token belongs to, or undefined for unknown tokens.
+ */
+export function verifyToken(token: string): AuthInfo | undefined {
+  const digest = sha256(token);
+  for (const entry of getConfig().auth?.tokens || []) {
+    const expected = entry.token ?? (entry.tokenEnvVar ? process.env[entry.tokenEnvVar] : undefined);
+    // Digests have the same length, so the comparison takes the same time for any token
+    if (expected && timingSafeEqual(digest, sha256(expected))) {
+      return { token, clientId: entry.client, scopes: entry.scopes };
+    }
+  }
+  return undefined;
+}
+
+function sha256(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Express middleware that identifies the client from its `Authorization: Bearer` header and
+ * answers 401 without a valid token. Every request counts as an anonymous client with all scopes
+ * while no tokens are configured.
+ */
+export function authenticate(req: Request, res: Response, next: NextFunction) {
+  if (!isAuthEnabled()) {
+    req.auth = ANONYMOUS;
+    return next();
+  }
+
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(req.header('authorization') || '');
+  const auth = match ? verifyToken(match[1]) : undefined;
+  if (!auth) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    return res.status(401).json({ success: false, error: match ? 'Invalid bearer token' : 'Missing bearer token' });
+  }
+  req.auth = auth;
+  next();
+}
+
+/**
+ * Callers without auth info are stdio MCP clients, which started the server themselves.
+ */
+export function hasScope(auth: AuthInfo | undefined, scope: Scope): boolean {
+  return !auth || auth.scopes.includes(scope);
+}
+
+/**
+ * Tools that do not declare a scope need `write`, the most privileged one.
+ */
+export function toolScope(tool: ToolDefinition): Scope {
+  return tool.scope || 'write';
+}
+
+/**
+ * Throws a 403 ToolError when the client may not call the tool. Refused write calls are audited.
+ */
+export function assertToolScope(tool: ToolDefinition, auth: AuthInfo | undefined, input?: unknown) {
+  const scope = toolScope(tool);
+  if (hasScope(auth, scope)) return;
+
+  if (scope === 'write') {
+    auditCall({ client: auth!.clientId, tool: tool.name, outcome: 'denied', input });
+  }
+  throw new ToolError(`Client ${auth!.clientId} lacks the ${scope} scope needed by ${tool.name}`, 403, { scope });
+}
+
+/**
+ * Express middleware for plugin routes that are not tools. Calls of `write` routes are audited.
+ */
+export function requireScope(scope: Scope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const route = `${req.method} ${req.path}`;
+    const client = req.auth?.clientId || 'anonymous';
+    if (!hasScope(req.auth, scope)) {
+      if (scope === 'write') auditCall({ client, tool: route, outcome: 'denied' });
+      return res.status(403).json({ success: false, error: `Client ${client} lacks the ${scope} scope needed by ${route}`, scope });
+    }
+
+    if (scope === 'write') {
+      res.on('finish', () => auditCall({ client, tool: route, outcome: res.statusCode < 400 ? 'succeeded' : 'failed' }));
+    }
+    next();
+  };
+}
+
+/**
+ * Appends an entry to the audit log. Entries are written in call order; write errors are logged,
+ * never thrown at the caller.
+ */
+export function auditCall(entry: Omit<AuditEntry, 'timestamp'>) {
+  const configured = getConfig().auth?.auditLog;
+  const file = path.resolve(configured || path.join(STATE_DIRECTORY, 'audit.log'));
+  const line = JSON.stringify({ timestamp: new Date().toISOString(), ...entry }) + '\n';
+  auditQueue = auditQueue
+    .then(async () => {
+      if (configured) await fs.ensureDir(path.dirname(file));
+      else await ensureStateDirectory(process.cwd());
+    })
+    .then(() => fs.appendFile(file, line))
+    .catch(error => console.error(`Could not write audit log ${file}:`, error));
+}
@@ -0,0 +1,339 @@
+import { randomUUID } from 'crypto';
+import { exec } from 'child_process';
+import fs from 'fs-extra';
+import path from 'path';
+import { ToolError } from '../plugins/types.js';
+import { assertAllowedPath, resolveProjectFile } from './sandbox.js';
+
+/** A file a tool is about to write */
+export interface PlannedWrite {
+  /** Absolute path inside the project */
+  file: string;
+  content: string;
+  /** Replace the file when it exists; otherwise existing files are left alone */
+  overwrite?: boolean;
+}
+
+export interface FileChange {
+  file: string;
+  action: 'create' | 'update';
+  /** Content when the change was planned, null for files that did not exist */
+  previous: string | null;
+  content: string;
+}
+
+export type ChangeSetStatus = 'pending' | 'applied';
+
+/**
+ * Files and commands a tool previewed with `dryRun`, kept until they are applied, discarded or expire.
+ */
+export interface ChangeSet {
+  id: string;
+  /** Tool that planned the changes */
+  tool: string;
+  projectRoot: string;
+  status: ChangeSetStatus;
+  createdAt: string;
+  expiresAt: string;
+  appliedAt?: string;
+  changes: FileChange[];
+  /** Shell commands run in the project root after the files are written, e.g. installs */
+  commands: string[];
+}
+
+export interface ChangeSetView extends Omit<ChangeSet, 'changes'> {
+  files: Array<{ path: string; action: FileChange['action']; diff: string }>;
+}
+
+const CHANGE_SET_TTL_MS = 60 * 60 * 1000;
+const CHANGE_SETS_KEPT = 100;
+const DIFF_CONTEXT_LINES = 3;
+// Beyond this many line pairs the whole file is shown as replaced instead of diffed line by line
+const MAX_DIFF_CELLS = 4_000_000;
+
+const changeSets = new Map<string, ChangeSet>();
+
+/**
+ * The writes that would change something, with the current content of each file. Files that exist
+ * and may not be overwritten, or already have the planned content, are dropped.
+ */
+export async function planFileChanges(projectRoot: string, writes: PlannedWrite[]): Promise<FileChange[]> {
+  const changes: FileChange[] = [];
+  for (const write of writes) {
+    const file = resolveProjectFile(projectRoot, write.file);
+    // Later writes to the same file are skipped, like they would be once the first one is on disk
+    if (changes.some(change => change.file === file)) continue;
+
+    const previous = await readIfExists(file);
+    if (previous !== null && (!write.overwrite || previous === write.content)) continue;
+    changes.push({ file, action: previous === null ? 'create' : 'update', previous, content: write.content });
+  }
+  return changes;
+}
+
+/**
+ * Writes the planned files and returns the changes that were made.
+ */
+export async function writeFiles(projectRoot: string, writes: PlannedWrite[]): Promise<FileChange[]> {
+  const changes = await planFileChanges(projectRoot, writes);
+  for (const change of changes) {
+    await fs.ensureDir(path.dirname(change.file));
+    await fs.writeFile(change.file, change.content);
+  }
+  return changes;
+}
+
+/**
+ * Runs a shell command in the project root. Rejects with `{ error, stderr }` like the tools do.
+ */
+export function runCommand(command: string, cwd: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    exec(command, { cwd }, (err, stdout, stderr) => {
+      if (err) return reject({ error: err.message, stderr });
+      resolve(stdout);
+    });
+  });
+}
+
+/**
+ * Plans the writes without touching disk and keeps them as a change set to apply later.
+ */
+export async function previewChanges(tool: string, projectRoot: string, writes: PlannedWrite[], commands: string[] = []): Promise<ChangeSet> {
+  pruneChangeSets();
+  const now = Date.now();
+  const changeSet: ChangeSet = {
+    id: randomUUID(),
+    tool,
+    projectRoot: path.resolve(projectRoot),
+    status: 'pending',
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + CHANGE_SET_TTL_MS).toISOString(),
+    changes: await planFileChanges(projectRoot, writes),
+    commands
+  };
+  changeSets.set(changeSet.id, changeSet);
+  return changeSet;
+}
+
+export function getChangeSet(id: string): ChangeSet | undefined {
+  pruneChangeSets();
+  return changeSets.get(id);
+}
+
+/**
+ * Change sets, newest first.
+ */
+export function listChangeSets(filter: { status?: ChangeSetStatus; projectRoot?: string } = {}): ChangeSet[] {
+  pruneChangeSets();
+  return [...changeSets.values()]
+    .filter(changeSet => !filter.status || changeSet.status === filter.status)
+    .filter(changeSet => !filter.projectRoot || changeSet.projectRoot === path.resolve(filter.projectRoot))
+    .reverse();
+}
+
+export function discardChangeSet(id: string): ChangeSet | undefined {
+  const changeSet = getChangeSet(id);
+  changeSets.delete(id);
+  return changeSet;
+}
+
+/**
+ * Writes the files of a pending change set and runs its commands. Throws a 409 ToolError without
+ * writing anything when a file changed since the preview.
+ */
+export async function applyChangeSet(id: string): Promise<{ changeSet: ChangeSet; output?: string }> {
+  const changeSet = getChangeSet(id);
+  if (!changeSet) {
+    throw new ToolError(`Change set ${id} not found or expired`, 404);
+  }
+  if (changeSet.status === 'applied') {
+    throw new ToolError(`Change set ${id} was already applied`, 409);
+  }
+
+  // The allowed roots may have changed since the preview
+  assertAllowedPath(changeSet.projectRoot, 'Project');
+  // Claimed before the first await, so a second call cannot apply it twice while this one runs
+  changeSet.status = 'applied';
+  changeSet.appliedAt = new Date().toISOString();
+  const written: FileChange[] = [];
+  try {
+    const conflicts: string[] = [];
+    for (const change of changeSet.changes) {
+      const current = await readIfExists(resolveProjectFile(changeSet.projectRoot, change.file));
+      if (current !== change.previous) conflicts.push(path.relative(changeSet.projectRoot, change.file));
+    }
+    if (conflicts.length) {
+      throw new ToolError(`Files changed since change set ${id} was previewed; preview it again`, 409, { conflicts });
+    }
+
+    for (const change of changeSet.changes) {
+      await fs.ensureDir(path.dirname(change.file));
+      written.push(change);
+      await fs.writeFile(change.file, change.content);
+    }
+  } catch (error) {
+    await restoreFiles(written);
+    changeSet.status = 'pending';
+    delete changeSet.appliedAt;
+    throw error;
+  }
+
+  let output = '';
+  for (const command of changeSet.commands) {
+    output += await runCommand(command, changeSet.projectRoot);
+  }
+  return { changeSet, ...(changeSet.commands.length > 0 && { output }) };
+}
+
+/**
+ * Change set with unified diffs and paths relative to the project root in place of the file contents.
+ */
+export function toChangeSetView({ changes, ...changeSet }: ChangeSet): ChangeSetView {
+  return {
+    ...changeSet,
+    files: changes.map(change => {
+      const relative = path.relative(changeSet.projectRoot, change.file).split(path.sep).join('/');
+      return { path: relative, action: change.action, diff: unifiedDiff(relative, change.previous, change.content) };
+    })
+  };
+}
+
+async function readIfExists(file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(file, 'utf-8');
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw e;
+  }
+}
+
+/**
+ * Puts back the contents files had before a failed apply, removing the ones it created. Errors are
+ * logged so the original failure reaches the caller.
+ */
+async function restoreFiles(changes: FileChange[]) {
+  for (const change of changes.reverse()) {
+    try {
+      if (change.previous === null) await fs.remove(change.file);
+      else await fs.writeFile(change.file, change.previous);
+    } catch (error) {
+      console.error(`Could not restore ${change.file}:`, error);
+    }
+  }
+}
+
+function pruneChangeSets() {
+  const now = new Date().toISOString();
+  for (const [id, changeSet] of changeSets) {
+    if (changeSet.expiresAt <= now) changeSets.delete(id);
+  }
+  const all = [...changeSets.keys()];
+  for (const id of all.slice(0, Math.max(0, all.length - CHANGE_SETS_KEPT))) {
+    changeSets.delete(id);
+  }
+}
+
+type DiffLine = { type: ' ' | '-' | '+'; line: string };
+
+/**
+ * Unified diff of one file, as `git diff` prints it. `previous` is null for new files.
+ */
+function unifiedDiff(file: string, previous: string | null, content: string): string {
+  const oldLines = splitLines(previous ?? '');
+  const newLines = splitLines(content);
+  const ops = diffLines(oldLines, newLines);
+
+  const header = [previous === null ? '--- /dev/null' : `--- a/${file}`, `+++ b/${file}`];
+  const hunks: string[] = [];
+  const changed = ops.map((op, i) => (op.type === ' ' ? -1 : i)).filter(i => i >= 0);
+  let oldLine = 0;
+  let newLine = 0;
+  let consumed = 0;
+
+  for (let start = 0; start < changed.length;) {
+    // Changes closer than twice the context share one hunk
+    let end = start;
+    while (end + 1 < changed.length && changed[end + 1] - changed[end] <= 2 * DIFF_CONTEXT_LINES + 1) end++;
+    const from = Math.max(0, changed[start] - DIFF_CONTEXT_LINES);
+    const to = Math.min(ops.length, changed[end] + DIFF_CONTEXT_LINES + 1);
+
+    for (; consumed < from; consumed++) {
+      if (ops[consumed].type !== '+') oldLine++;
+      if (ops[consumed].type !== '-') newLine++;
+    }
+    const body: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    for (const op of ops.slice(from, to)) {
+      if (op.type !== '+') oldCount++;
+      if (op.type !== '-') newCount++;
+      body.push(op.type + op.line.replace(/\n$/, ''));
+      if (!op.line.endsWith('\n')) body.push('\\ No newline at end of file');
+    }
+    hunks.push(`@@ -${hunkRange(oldLine, oldCount)} +${hunkRange(newLine, newCount)} @@`, ...body);
+    start = end + 1;
+  }
+
+  return hunks.length ? [...header, ...hunks].join('\n') + '\n' : '';
+}
+
+function hunkRange(linesBefore: number, count: number): string {
+  return `${count === 0 ? linesBefore : linesBefore + 1},${count}`;
+}
+
+/**
+ * Lines with their line break, so a missing newline at the end of the file counts as a change.
+ */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix && suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) suffix++;
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+  const middle: DiffLine[] = (a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS
+    ? [...a.map(line => ({ type: '-' as const, line })), ...b.map(line => ({ type: '+' as const, line }))]
+    : longestCommonSubsequence(a, b);
+
+  return [
+    ...oldLines.slice(0, prefix).map(line => ({ type: ' ' as const, line })),
+    ...middle,
+    ...oldLines.slice(oldLines.length - suffix).map(line => ({ type: ' ' as const, line }))
+  ];
+}
+
+function longestCommonSubsequence(a: string[], b: string[]): DiffLine[] {
+  const width = b.length + 1;
+  // lengths[i * width + j]: length of the LCS of a[i..] and b[j..]
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const ops: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ type: ' ', line: a[i++] });
+      j++;
+    } else if (j >= b.length || (i < a.length && lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+      ops.push({ type: '-', line: a[i++] });
+    } else {
+      ops.push({ type: '+', line: b[j++] });
+    }
+  }
+  return ops;
+}
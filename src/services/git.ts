@@ -0,0 +1,84 @@
+import { execFile } from 'child_process';
+import path from 'path';
+import { STATE_DIRECTORY } from './stateDirectory.js';
+
+/**
+ * Runs git without a shell, so refs and paths from requests are never interpreted by one.
+ */
+export function git(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, maxBuffer: 32 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error) {
+        return reject(new Error(`git ${args[0]} failed: ${stderr.trim() || error.message}`));
+      }
+      resolve(stdout);
+    });
+  });
+}
+
+/**
+ * Resolves a branch, tag or SHA to a full commit SHA. Refs that look like options are rejected.
+ */
+export async function resolveCommit(cwd: string, ref: string): Promise<string> {
+  if (!ref || ref.startsWith('-')) {
+    throw new Error(`Invalid git ref: ${ref}`);
+  }
+  return (await git(cwd, ['rev-parse', '--verify', '--end-of-options', `${ref}^{commit}`])).trim();
+}
+
+/**
+ * Absolute paths of files changed in the working tree since `ref`, including untracked files.
+ * Deleted files and the server's own state directory are left out.
+ */
+export async function listChangedFiles(cwd: string, ref: string): Promise<string[]> {
+  const commit = await resolveCommit(cwd, ref);
+  const topLevel = (await git(cwd, ['rev-parse', '--show-toplevel'])).trim();
+  const changed = await git(cwd, ['diff', '--name-only', '--diff-filter=d', commit]);
+  const untracked = await git(cwd, ['ls-files', '--others', '--exclude-standard', '--full-name']);
+
+  const files = `${changed}\n${untracked}`
+    .split('\n')
+    .filter(file => file && !file.split('/').includes(STATE_DIRECTORY));
+  return Array.from(new Set(files.map(file => path.join(topLevel, file))));
+}
+
+/**
+ * Files renamed between `commit` and the working tree, as absolute paths.
+ */
+export async function listRenamedFiles(cwd: string, commit: string): Promise<Array<{ from: string; to: string }>> {
+  const topLevel = (await git(cwd, ['rev-parse', '--show-toplevel'])).trim();
+  const output = await git(cwd, ['diff', '--name-status', '-M', '--diff-filter=R', commit]);
+  return output
+    .split('\n')
+    .filter(Boolean)
+    .map(line => line.split('\t'))
+    .map(([, from, to]) => ({ from: path.join(topLevel, from), to: path.join(topLevel, to) }));
+}
+
+/**
+ * Unified diff without context lines for a range (`a..b`, `a...b`) or a single ref compared
+ * with the working tree. Paths are relative to the repository top level.
+ */
+export async function diffRange(cwd: string, range: string): Promise<{ diff: string; topLevel: string }> {
+  if (!range || range.startsWith('-')) {
+    throw new Error(`Invalid git range: ${range}`);
+  }
+  const topLevel = (await git(cwd, ['rev-parse', '--show-toplevel'])).trim();
+  const diff = await git(cwd, ['diff', '--unified=0', '--no-color', '--no-ext-diff', '--end-of-options', range]);
+  return { diff, topLevel };
+}
+
+/**
+ * Commit, branch and dirty state of the checkout, or null outside a git repository.
+ * `branch` is null on a detached HEAD.
+ */
+export async function describeHead(cwd: string): Promise<{ sha: string; branch: string | null; dirty: boolean } | null> {
+  try {
+    const sha = (await git(cwd, ['rev-parse', 'HEAD'])).trim();
+    const branch = (await git(cwd, ['rev-parse', '--abbrev-ref', 'HEAD'])).trim();
+    const status = await git(cwd, ['status', '--porcelain', '--untracked-files=no']);
+    return { sha, branch: branch === 'HEAD' ? null : branch, dirty: status.trim() !== '' };
+  } catch {
+    return null;
+  }
+}
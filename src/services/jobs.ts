@@ -0,0 +1,216 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import path from 'path';
+import { ToolContext, ToolError } from '../plugins/types.js';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobEvent {
+  type: 'status' | 'progress';
+  timestamp: string;
+  status?: JobStatus;
+  message?: string;
+  data?: Record<string, unknown>;
+}
+
+export interface JobError {
+  message: string;
+  statusCode?: number;
+  [key: string]: unknown;
+}
+
+export interface Job {
+  id: string;
+  tool: string;
+  /** Jobs with the same project root run one after another */
+  projectRoot: string;
+  /** Client that started the job; absent for stdio clients */
+  clientId?: string;
+  status: JobStatus;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  /** Latest progress message */
+  progress?: string;
+  events: JobEvent[];
+  result?: unknown;
+  error?: JobError;
+}
+
+const FINISHED_JOBS_KEPT = 100;
+const FINISHED: JobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+const jobs = new Map<string, Job>();
+const controllers = new Map<string, AbortController>();
+// Tail of each project's chain of jobs
+const projectQueues = new Map<string, Promise<void>>();
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+export function isFinished(job: Job): boolean {
+  return FINISHED.includes(job.status);
+}
+
+/**
+ * Queues `run` behind the other jobs of the same project and returns the job right away.
+ */
+export function enqueueJob(
+  tool: string,
+  projectRoot: string,
+  run: (context: ToolContext) => Promise<unknown>,
+  clientId?: string
+): Job {
+  const job: Job = {
+    id: randomUUID(),
+    tool,
+    projectRoot: path.resolve(projectRoot),
+    ...(clientId && { clientId }),
+    status: 'queued',
+    createdAt: new Date().toISOString(),
+    events: []
+  };
+  const controller = new AbortController();
+  jobs.set(job.id, job);
+  controllers.set(job.id, controller);
+  addEvent(job, { type: 'status', status: 'queued' });
+
+  const previous = projectQueues.get(job.projectRoot) || Promise.resolve();
+  const current = previous.then(() => execute(job, controller, run));
+  projectQueues.set(job.projectRoot, current);
+  current.then(() => {
+    if (projectQueues.get(job.projectRoot) === current) projectQueues.delete(job.projectRoot);
+  });
+
+  return job;
+}
+
+async function execute(job: Job, controller: AbortController, run: (context: ToolContext) => Promise<unknown>) {
+  // Cancelled while waiting for its turn
+  if (isFinished(job)) return;
+
+  job.startedAt = new Date().toISOString();
+  setStatus(job, 'running');
+
+  const context: ToolContext = {
+    signal: controller.signal,
+    progress: (message, data) => {
+      job.progress = message;
+      addEvent(job, { type: 'progress', message, data });
+    }
+  };
+
+  try {
+    job.result = await run(context);
+    setStatus(job, controller.signal.aborted ? 'cancelled' : 'succeeded');
+  } catch (e) {
+    if (controller.signal.aborted) {
+      setStatus(job, 'cancelled');
+    } else {
+      console.error(`Job ${job.id} (${job.tool}) failed:`, e);
+      job.error = toJobError(e);
+      setStatus(job, 'failed');
+    }
+  } finally {
+    controllers.delete(job.id);
+    pruneFinishedJobs();
+  }
+}
+
+/**
+ * Normalises ToolErrors, Errors and the plain `{ error, stderr }` rejections of the tool implementations.
+ */
+function toJobError(e: unknown): JobError {
+  if (e instanceof ToolError) return { message: e.message, statusCode: e.statusCode, ...e.details };
+  if (e instanceof Error) return { message: e.message };
+  if (e && typeof e === 'object') {
+    const { error, message, ...rest } = e as Record<string, unknown>;
+    return { ...rest, message: String(message || error || 'Job failed') };
+  }
+  return { message: String(e) };
+}
+
+/**
+ * Cancels a queued job, or aborts a running one and kills its child processes.
+ * Returns null for unknown jobs.
+ */
+export function cancelJob(id: string): Job | null {
+  const job = jobs.get(id);
+  if (!job) return null;
+
+  if (job.status === 'queued') {
+    controllers.get(id)?.abort();
+    controllers.delete(id);
+    setStatus(job, 'cancelled');
+  } else if (job.status === 'running') {
+    controllers.get(id)?.abort();
+  }
+  return job;
+}
+
+export function getJob(id: string): Job | undefined {
+  return jobs.get(id);
+}
+
+/**
+ * Jobs, newest first. `clientId` keeps the jobs that client started.
+ */
+export function listJobs(filter: { status?: JobStatus; tool?: string; projectRoot?: string; clientId?: string } = {}): Job[] {
+  return [...jobs.values()]
+    .filter(job => !filter.clientId || job.clientId === filter.clientId)
+    .filter(job => !filter.status || job.status === filter.status)
+    .filter(job => !filter.tool || job.tool === filter.tool)
+    .filter(job => !filter.projectRoot || job.projectRoot === path.resolve(filter.projectRoot))
+    .reverse();
+}
+
+/**
+ * Calls `listener` for every new event of a job. Returns the unsubscribe function.
+ */
+export function subscribeToJob(id: string, listener: (event: JobEvent, job: Job) => void): () => void {
+  const handler = (job: Job, event: JobEvent) => {
+    if (job.id === id) listener(event, job);
+  };
+  emitter.on('event', handler);
+  return () => emitter.off('event', handler);
+}
+
+/**
+ * Resolves with the job once it has succeeded, failed or been cancelled.
+ */
+export function waitForJob(job: Job): Promise<Job> {
+  if (isFinished(job)) return Promise.resolve(job);
+  return new Promise(resolve => {
+    const unsubscribe = subscribeToJob(job.id, (_event, updated) => {
+      if (isFinished(updated)) {
+        unsubscribe();
+        resolve(updated);
+      }
+    });
+  });
+}
+
+/**
+ * Job without its event log, for listings.
+ */
+export function toJobSummary({ events, ...job }: Job): Omit<Job, 'events'> {
+  return job;
+}
+
+function setStatus(job: Job, status: JobStatus) {
+  job.status = status;
+  if (isFinished(job)) job.finishedAt = new Date().toISOString();
+  addEvent(job, { type: 'status', status });
+}
+
+function addEvent(job: Job, event: Omit<JobEvent, 'timestamp'>) {
+  const full = { timestamp: new Date().toISOString(), ...event };
+  job.events.push(full);
+  emitter.emit('event', job, full);
+}
+
+function pruneFinishedJobs() {
+  const finished = [...jobs.values()].filter(isFinished);
+  for (const job of finished.slice(0, Math.max(0, finished.length - FINISHED_JOBS_KEPT))) {
+    jobs.delete(job.id);
+  }
+}
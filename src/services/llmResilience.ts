@@ -0,0 +1,157 @@
+import axios from 'axios';
+
+export interface RetryOptions {
+  /** Retries after the first attempt */
+  maxRetries: number;
+  /** Delay before the first retry; doubled for every further one */
+  baseDelayMs: number;
+  /** Ends the wait between attempts; the call then rejects with the abort reason */
+  signal?: AbortSignal;
+}
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failed calls that open the circuit */
+  failureThreshold: number;
+  /** How long an open circuit rejects calls before one trial call is let through */
+  cooldownMs: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+const MAX_RETRY_DELAY_MS = 30_000;
+// Status codes worth retrying: timeouts, rate limits and server errors
+const RETRYABLE_STATUS = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+/**
+ * Tracks the failures of one endpoint. After `failureThreshold` consecutive failures it opens and
+ * rejects calls for `cooldownMs`. Then it turns half-open and lets a single trial call through while
+ * refusing all others: success closes it again, failure reopens it for another cooldown.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  /**
+   * Whether a call would be let through now. Only reads the state; use tryAcquire to make the call.
+   */
+  allowsRequest(now = Date.now()): boolean {
+    const state = this.currentState(now);
+    return state === 'closed' || (state === 'half-open' && !this.trialInFlight);
+  }
+
+  /**
+   * Claims a call. A half-open circuit hands out its trial to the first caller only; the trial ends
+   * with recordSuccess, recordFailure or release.
+   */
+  tryAcquire(now = Date.now()): boolean {
+    if (!this.allowsRequest(now)) return false;
+    if (this.state !== 'closed') {
+      this.state = 'half-open';
+      this.trialInFlight = true;
+    }
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(now = Date.now()): void {
+    this.failures++;
+    if (this.state !== 'closed' || this.failures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = now;
+    }
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Ends a claimed call that says nothing about the endpoint, such as a cancelled one.
+   */
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  getStatus(now = Date.now()): { state: CircuitState; failures: number; retryAt?: string } {
+    const state = this.currentState(now);
+    return {
+      state,
+      failures: this.failures,
+      ...(state === 'open' && { retryAt: new Date(this.openedAt + this.options.cooldownMs).toISOString() })
+    };
+  }
+
+  private currentState(now: number): CircuitState {
+    return this.state === 'open' && now - this.openedAt >= this.options.cooldownMs ? 'half-open' : this.state;
+  }
+}
+
+/**
+ * Calls `fn` until it succeeds, retrying retryable errors with exponential backoff and jitter.
+ * A `Retry-After` header on a 429 or 503 is honoured when it asks for longer. Aborting `signal`
+ * cuts the wait short.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= options.maxRetries || !isRetryableError(error)) throw error;
+      const backoff = options.baseDelayMs * 2 ** attempt + Math.random() * options.baseDelayMs;
+      await sleep(Math.min(MAX_RETRY_DELAY_MS, Math.max(backoff, retryAfterMs(error))), options.signal);
+    }
+  }
+}
+
+/**
+ * Timeouts, dropped connections, rate limits and 5xx responses are retryable; other HTTP errors such as
+ * a bad API key or an unknown model are not, and neither are errors that did not come from a request.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) return false;
+  if (!error.response) return error.code !== 'ERR_CANCELED';
+  return RETRYABLE_STATUS.has(error.response.status);
+}
+
+/**
+ * One-line description of a failed provider call, e.g. `HTTP 429: Rate limit reached` or `timeout of 60000ms exceeded`.
+ */
+export function describeError(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data as any;
+    const detail = data?.error?.message || (typeof data?.error === 'string' && data.error) || error.message;
+    return error.response ? `HTTP ${error.response.status}: ${detail}` : detail;
+  }
+  return (error as Error)?.message || String(error);
+}
+
+function retryAfterMs(error: unknown): number {
+  if (!axios.isAxiosError(error)) return 0;
+  const header = error.response?.headers?.['retry-after'];
+  if (!header) return 0;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(String(header));
+  return Number.isNaN(date) ? 0 : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -1,11 +1,36 @@
 import axios from 'axios';
 import fs from 'fs-extra';
 import path from 'path';
+import { CircuitBreaker, CircuitBreakerOptions, CircuitState, describeError, withRetry } from './llmResilience.js';
+
+/**
+ * Per-call generation settings. Unset fields fall back to the provider config (`temperature`,
+ * `maxTokens`) and then to the defaults, so the test writer and other tasks such as repairs or
+ * summaries can share one service.
+ */
+export interface CompletionOptions {
+  /** Replaces the default system prompt, which asks for React component tests */
+  systemPrompt?: string;
+  /** 0 is honoured and gives the most deterministic output */
+  temperature?: number;
+  maxTokens?: number;
+  /** Generation stops before any of these */
+  stop?: string[];
+  /** Makes sampling repeatable on providers that support it */
+  seed?: number;
+  /**
+   * `json` asks for a JSON object; a schema asks for output matching it where the provider can enforce one.
+   * `strict` turns on OpenAI's strict schema adherence, which only accepts schemas that meet its restrictions
+   */
+  responseFormat?: 'text' | 'json' | { type: 'json_schema'; name?: string; schema: Record<string, any>; strict?: boolean };
+  /** Aborts the request, and stops retries and fallbacks */
+  signal?: AbortSignal;
+}
 
 export interface LLMProvider {
   name: string;
   isHealthy(): Promise<boolean>;
-  generateCompletion(prompt: string, options?: any): Promise<string>;
+  generateCompletion(prompt: string, options?: CompletionOptions): Promise<string>;
   getConfig(): LLMProviderConfig;
 }
 
@@ -16,6 +41,64 @@ export interface LLMProviderConfig {
   apiKey?: string;
   maxTokens?: number;
   temperature?: number;
+  /** Milliseconds before a completion request is abandoned. Defaults to 120000 */
+  timeoutMs?: number;
+  /** Retries of a completion after timeouts, rate limits and 5xx responses. Defaults to 2 */
+  maxRetries?: number;
+  /** Delay before the first retry, doubled for each further one. Defaults to 1000 */
+  retryDelayMs?: number;
+}
+
+export const DEFAULT_SYSTEM_PROMPT = 'You are a helpful assistant that writes high-quality React component tests.';
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const DEFAULT_MAX_TOKENS = 2000;
+const DEFAULT_TEMPERATURE = 0.2;
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerOptions = { failureThreshold: 3, cooldownMs: 60_000 };
+const PROVIDER_TYPES: LLMProviderConfig['type'][] = ['openai', 'lmstudio', 'ollama', 'llamacpp', 'mlx'];
+const JSON_INSTRUCTION = 'Respond with a single JSON object and nothing else.';
+
+type ResolvedOptions = Required<Pick<CompletionOptions, 'systemPrompt' | 'temperature' | 'maxTokens'>> &
+  Pick<CompletionOptions, 'stop' | 'seed' | 'responseFormat' | 'signal'>;
+
+function timeoutOf(config: LLMProviderConfig): number {
+  return config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+}
+
+function resolveOptions(config: LLMProviderConfig, options: CompletionOptions = {}): ResolvedOptions {
+  return {
+    ...options,
+    systemPrompt: options.systemPrompt ?? DEFAULT_SYSTEM_PROMPT,
+    temperature: options.temperature ?? config.temperature ?? DEFAULT_TEMPERATURE,
+    maxTokens: options.maxTokens ?? config.maxTokens ?? DEFAULT_MAX_TOKENS,
+    stop: options.stop?.length ? options.stop : undefined
+  };
+}
+
+/**
+ * Request body of the OpenAI chat completions API, which LM Studio and llama.cpp implement too.
+ * They differ in how they accept structured output, so the provider maps `responseFormat` itself.
+ */
+function chatCompletionBody(config: LLMProviderConfig, prompt: string, options: ResolvedOptions, responseFormat?: object) {
+  return {
+    model: config.model,
+    messages: [
+      { role: 'system', content: options.systemPrompt },
+      { role: 'user', content: prompt }
+    ],
+    max_tokens: options.maxTokens,
+    temperature: options.temperature,
+    ...(options.stop && { stop: options.stop }),
+    ...(options.seed !== undefined && { seed: options.seed }),
+    ...(responseFormat && { response_format: responseFormat })
+  };
+}
+
+function jsonSchemaOf(format: ResolvedOptions['responseFormat']) {
+  return typeof format === 'object' ? format : undefined;
 }
 
 export class OpenAIProvider implements LLMProvider {
@@ -26,7 +109,8 @@ export class OpenAIProvider implements LLMProvider {
   async isHealthy(): Promise<boolean> {
     try {
       const response = await axios.get(`${this.config.baseUrl}/models`, {
-        headers: { 'Authorization': `Bearer ${this.config.apiKey}` }
+        headers: { 'Authorization': `Bearer ${this.config.apiKey}` },
+        timeout: HEALTH_CHECK_TIMEOUT_MS
       });
       return response.status === 200;
     } catch {
@@ -34,20 +118,23 @@ export class OpenAIProvider implements LLMProvider {
     }
   }
   
-  async generateCompletion(prompt: string): Promise<string> {
+  async generateCompletion(prompt: string, completionOptions?: CompletionOptions): Promise<string> {
+    const options = resolveOptions(this.config, completionOptions);
+    const schema = jsonSchemaOf(options.responseFormat);
+    // JSON mode requires the word JSON in the messages
+    const responseFormat = schema
+      ? {
+          type: 'json_schema',
+          json_schema: { name: schema.name || 'response', schema: schema.schema, ...(schema.strict !== undefined && { strict: schema.strict }) }
+        }
+      : options.responseFormat === 'json' ? { type: 'json_object' } : undefined;
     const response = await axios.post(
       `${this.config.baseUrl}/chat/completions`,
+      chatCompletionBody(this.config, options.responseFormat === 'json' ? `${prompt}\n\n${JSON_INSTRUCTION}` : prompt, options, responseFormat),
       {
-        model: this.config.model,
-        messages: [
-          { role: 'system', content: 'You are a helpful assistant that writes high-quality React component tests.' },
-          { role: 'user', content: prompt }
-        ],
-        max_tokens: this.config.maxTokens || 2000,
-        temperature: this.config.temperature || 0.2
-      },
-      {
-        headers: { 'Authorization': `Bearer ${this.config.apiKey}` }
+        headers: { 'Authorization': `Bearer ${this.config.apiKey}` },
+        timeout: timeoutOf(this.config),
+        signal: options.signal
       }
     );
     
@@ -66,25 +153,23 @@ export class LMStudioProvider implements LLMProvider {
   
   async isHealthy(): Promise<boolean> {
     try {
-      const response = await axios.get(`${this.config.baseUrl}/v1/models`);
+      const response = await axios.get(`${this.config.baseUrl}/v1/models`, { timeout: HEALTH_CHECK_TIMEOUT_MS });
       return response.status === 200;
     } catch {
       return false;
     }
   }
   
-  async generateCompletion(prompt: string): Promise<string> {
+  async generateCompletion(prompt: string, completionOptions?: CompletionOptions): Promise<string> {
+    const options = resolveOptions(this.config, completionOptions);
+    // LM Studio only takes json_schema, so plain JSON mode asks for any object
+    const schema = jsonSchemaOf(options.responseFormat) ||
+      (options.responseFormat === 'json' ? { name: 'response', schema: { type: 'object' } } : undefined);
+    const responseFormat = schema && { type: 'json_schema', json_schema: { name: schema.name || 'response', schema: schema.schema } };
     const response = await axios.post(
       `${this.config.baseUrl}/v1/chat/completions`,
-      {
-        model: this.config.model,
-        messages: [
-          { role: 'system', content: 'You are a helpful assistant that writes high-quality React component tests.' },
-          { role: 'user', content: prompt }
-        ],
-        max_tokens: this.config.maxTokens || 2000,
-        temperature: this.config.temperature || 0.2
-      }
+      chatCompletionBody(this.config, prompt, options, responseFormat),
+      { timeout: timeoutOf(this.config), signal: options.signal }
     );
     
     return response.data.choices[0]?.message?.content || '';
@@ -102,25 +187,34 @@ export class OllamaProvider implements LLMProvider {
   
   async isHealthy(): Promise<boolean> {
     try {
-      const response = await axios.get(`${this.config.baseUrl}/api/tags`);
+      const response = await axios.get(`${this.config.baseUrl}/api/tags`, { timeout: HEALTH_CHECK_TIMEOUT_MS });
       return response.status === 200;
     } catch {
       return false;
     }
   }
   
-  async generateCompletion(prompt: string): Promise<string> {
+  async generateCompletion(prompt: string, completionOptions?: CompletionOptions): Promise<string> {
+    const options = resolveOptions(this.config, completionOptions);
+    // `format` takes "json" or, since Ollama 0.5, a JSON schema
+    const schema = jsonSchemaOf(options.responseFormat);
+    const format = schema ? schema.schema : options.responseFormat === 'json' ? 'json' : undefined;
     const response = await axios.post(
       `${this.config.baseUrl}/api/generate`,
       {
         model: this.config.model,
-        prompt: `You are a helpful assistant that writes high-quality React component tests.\n\n${prompt}`,
+        system: options.systemPrompt,
+        prompt,
         stream: false,
+        ...(format && { format }),
         options: {
-          num_predict: this.config.maxTokens || 2000,
-          temperature: this.config.temperature || 0.2
+          num_predict: options.maxTokens,
+          temperature: options.temperature,
+          ...(options.stop && { stop: options.stop }),
+          ...(options.seed !== undefined && { seed: options.seed })
         }
-      }
+      },
+      { timeout: timeoutOf(this.config), signal: options.signal }
     );
     
     return response.data.response || '';
@@ -138,17 +232,17 @@ export class LlamaCppProvider implements LLMProvider {
   
   async isHealthy(): Promise<boolean> {
     try {
-      const response = await axios.get(`${this.config.baseUrl}/v1/models`);
+      const response = await axios.get(`${this.config.baseUrl}/v1/models`, { timeout: HEALTH_CHECK_TIMEOUT_MS });
       return response.status === 200;
     } catch {
       // llama.cpp server might not have /v1/models endpoint
       try {
-        const response = await axios.get(`${this.config.baseUrl}/health`);
+        const response = await axios.get(`${this.config.baseUrl}/health`, { timeout: HEALTH_CHECK_TIMEOUT_MS });
         return response.status === 200;
       } catch {
         // Assume it's running if we can reach the base URL
         try {
-          await axios.get(`${this.config.baseUrl}`);
+          await axios.get(`${this.config.baseUrl}`, { timeout: HEALTH_CHECK_TIMEOUT_MS });
           return true;
         } catch {
           return false;
@@ -157,18 +251,17 @@ export class LlamaCppProvider implements LLMProvider {
     }
   }
   
-  async generateCompletion(prompt: string): Promise<string> {
+  async generateCompletion(prompt: string, completionOptions?: CompletionOptions): Promise<string> {
+    const options = resolveOptions(this.config, completionOptions);
+    // llama.cpp turns the schema of a json_object format into a grammar
+    const schema = jsonSchemaOf(options.responseFormat);
+    const responseFormat = schema
+      ? { type: 'json_object', schema: schema.schema }
+      : options.responseFormat === 'json' ? { type: 'json_object' } : undefined;
     const response = await axios.post(
       `${this.config.baseUrl}/v1/chat/completions`,
-      {
-        model: this.config.model,
-        messages: [
-          { role: 'system', content: 'You are a helpful assistant that writes high-quality React component tests.' },
-          { role: 'user', content: prompt }
-        ],
-        max_tokens: this.config.maxTokens || 2000,
-        temperature: this.config.temperature || 0.2
-      }
+      chatCompletionBody(this.config, prompt, options, responseFormat),
+      { timeout: timeoutOf(this.config), signal: options.signal }
     );
     
     return response.data.choices[0]?.message?.content || '';
@@ -196,25 +289,35 @@ export class MLXProvider implements LLMProvider {
     }
   }
   
-  async generateCompletion(prompt: string): Promise<string> {
+  async generateCompletion(prompt: string, completionOptions?: CompletionOptions): Promise<string> {
+    const options = resolveOptions(this.config, completionOptions);
     // MLX typically runs locally via Python scripts
     const scriptPath = path.join(process.cwd(), 'mlx_generate.py');
     
-    // Create a Python script for MLX generation
+    // mlx_lm has no structured output, so JSON is only asked for in the prompt
+    const schema = jsonSchemaOf(options.responseFormat);
+    const formatInstruction = schema
+      ? `\n\n${JSON_INSTRUCTION} It must match this JSON schema:\n${JSON.stringify(schema.schema)}`
+      : options.responseFormat === 'json' ? `\n\n${JSON_INSTRUCTION}` : '';
+    const fullPrompt = `${options.systemPrompt}\n\n${prompt}${formatInstruction}`;
+    
+    // Create a Python script for MLX generation. Values are embedded as JSON string literals, which
+    // Python reads the same way, so quotes in the prompt cannot end the string early.
     const pythonScript = `
 import sys
 import json
+import mlx.core as mx
 from mlx_lm import load, generate
 
-# Load model and tokenizer
-model, tokenizer = load("${this.config.model}")
+${options.seed !== undefined ? `mx.random.seed(${Math.trunc(options.seed)})` : ''}
 
-prompt = """You are a helpful assistant that writes high-quality React component tests.
+# Load model and tokenizer
+model, tokenizer = load(json.loads(${JSON.stringify(JSON.stringify(this.config.model))}))
 
-${prompt}"""
+prompt = json.loads(${JSON.stringify(JSON.stringify(fullPrompt))})
 
 # Generate response
-response = generate(model, tokenizer, prompt=prompt, max_tokens=${this.config.maxTokens || 2000}, temp=${this.config.temperature || 0.2})
+response = generate(model, tokenizer, prompt=prompt, max_tokens=${Math.trunc(options.maxTokens)}, temp=${Number(options.temperature)})
 
 print(response)
 `;
@@ -223,9 +326,9 @@ print(response)
     
     try {
       const { execSync } = require('child_process');
-      const result = execSync(`python3 ${scriptPath}`, { encoding: 'utf-8' });
+      const result = execSync(`python3 ${scriptPath}`, { encoding: 'utf-8', timeout: timeoutOf(this.config) });
       await fs.remove(scriptPath); // Clean up
-      return result.trim();
+      return cutAtStop(result.trim(), options.stop);
     } catch (error) {
       await fs.remove(scriptPath); // Clean up even on error
       throw new Error(`MLX generation failed: ${error.message}`);
@@ -237,34 +340,123 @@ print(response)
   }
 }
 
+/**
+ * Output up to the first stop sequence, for providers that cannot stop generation themselves.
+ */
+function cutAtStop(text: string, stop?: string[]): string {
+  const cut = Math.min(...(stop || []).map(sequence => text.indexOf(sequence)).filter(index => index >= 0));
+  return Number.isFinite(cut) ? text.slice(0, cut) : text;
+}
+
+interface ChainConfig {
+  providers: LLMProviderConfig[];
+  circuitBreaker: CircuitBreakerOptions;
+}
+
+interface ProviderEntry {
+  provider: LLMProvider;
+  breaker: CircuitBreaker;
+  /** Failed its last health check; skipped until refreshHealth() or a rebuilt chain finds it healthy */
+  unhealthy: boolean;
+}
+
+export interface ProviderStatus {
+  name: string;
+  type: LLMProviderConfig['type'];
+  model: string;
+  /** Circuit breaker state; `open` providers are skipped until `retryAt` */
+  state: CircuitState;
+  failures: number;
+  retryAt?: string;
+  healthy?: boolean;
+}
+
+/**
+ * The configured provider followed by its fallbacks (`llmFallbacks` in mcp.config.json, or
+ * LLM_FALLBACK_PROVIDERS). Completions go to the first provider that passed its health check and whose
+ * circuit is not open; retryable errors are retried with backoff, and once a provider gives up the next
+ * one in the chain gets the prompt. The chain is built once and shared by every caller; circuit breakers
+ * also outlive a rebuilt chain, so a dead endpoint stays skipped across requests until its cooldown ends.
+ */
 export class LocalLLMService {
-  private provider: LLMProvider | null = null;
+  private chain: ProviderEntry[] = [];
+  private lastProvider: LLMProvider | null = null;
+  private breakers = new Map<string, CircuitBreaker>();
+  private ready: Promise<boolean> | null = null;
+  /** Config the chain was built from, to tell whether reload() has to rebuild it */
+  private builtFrom = '';
   
   constructor(private configPath?: string) {}
   
-  async initialize(): Promise<boolean> {
+  /**
+   * Builds the chain on first use; later calls share that result instead of rebuilding it under
+   * requests that are using it. A chain without a healthy provider is built again on the next call.
+   */
+  initialize(): Promise<boolean> {
+    return this.ready || this.start(this.loadConfig());
+  }
+  
+  /**
+   * Reads the provider config again and rebuilds the chain only if it changed.
+   */
+  async reload(): Promise<boolean> {
     const config = await this.loadConfig();
-    
+    if (this.ready && JSON.stringify(config) === this.builtFrom) return this.ready;
+    return this.start(Promise.resolve(config));
+  }
+  
+  /**
+   * Health-checks every provider of the chain and updates which ones are skipped, without rebuilding it.
+   */
+  async refreshHealth(): Promise<void> {
+    await Promise.all(this.chain.map(async entry => {
+      entry.unhealthy = !(await entry.provider.isHealthy());
+    }));
+  }
+  
+  private start(config: Promise<ChainConfig | null>): Promise<boolean> {
+    const ready = config.then(loaded => this.build(loaded));
+    this.ready = ready;
+    ready.then(ok => {
+      if (!ok && this.ready === ready) this.ready = null;
+    });
+    return ready;
+  }
+  
+  private async build(config: ChainConfig | null): Promise<boolean> {
+    this.builtFrom = JSON.stringify(config);
     if (!config) {
       console.warn('No LLM configuration found');
       return false;
     }
     
-    this.provider = this.createProvider(config);
+    this.chain = config.providers.map(providerConfig => ({
+      provider: this.createProvider(providerConfig),
+      breaker: this.breakerFor(providerConfig, config.circuitBreaker),
+      unhealthy: false
+    }));
+    this.lastProvider = null;
     
-    // Test provider health
-    const isHealthy = await this.provider.isHealthy();
-    
-    if (!isHealthy) {
-      console.warn(`${this.provider.name} provider is not healthy`);
-      return false;
+    // Test provider health in order until one is ready; the ones after it are only checked by using them
+    for (const entry of this.chain) {
+      if (!entry.breaker.tryAcquire()) {
+        console.warn(`${entry.provider.name} provider is skipped until its circuit breaker closes`);
+        continue;
+      }
+      if (await entry.provider.isHealthy()) {
+        // A passing health check leaves a half-open circuit to be closed by a completion
+        entry.breaker.release();
+        console.log(`✅ ${entry.provider.name} provider initialized successfully`);
+        return true;
+      }
+      console.warn(`${entry.provider.name} provider is not healthy`);
+      entry.unhealthy = true;
+      entry.breaker.recordFailure();
     }
-    
-    console.log(`✅ ${this.provider.name} provider initialized successfully`);
-    return true;
+    return false;
   }
   
-  private async loadConfig(): Promise<LLMProviderConfig | null> {
+  private async loadConfig(): Promise<ChainConfig | null> {
     try {
       let configData: any;
       
@@ -275,51 +467,72 @@ export class LocalLLMService {
         configData = await fs.readJSON('mcp.config.json');
       }
       
+      const circuitBreaker = { ...DEFAULT_CIRCUIT_BREAKER, ...configData?.llmCircuitBreaker };
+      
       if (configData?.llmProvider) {
-        return configData.llmProvider;
+        return { providers: [configData.llmProvider, ...(configData.llmFallbacks || [])], circuitBreaker };
       }
       
       // Fallback to environment variables
-      const providerType = process.env.LLM_PROVIDER || 'openai';
-      
-      if (providerType === 'lmstudio') {
-        return {
-          type: 'lmstudio',
-          baseUrl: process.env.LMSTUDIO_BASE_URL || 'http://localhost:1234',
-          model: process.env.LLM_MODEL || 'local-model'
-        };
-      } else if (providerType === 'ollama') {
-        return {
-          type: 'ollama',
-          baseUrl: process.env.OLLAMA_BASE_URL || 'http://localhost:11434',
-          model: process.env.LLM_MODEL || 'llama2'
-        };
-      } else if (providerType === 'llamacpp') {
-        return {
-          type: 'llamacpp',
-          baseUrl: process.env.LLAMACPP_BASE_URL || 'http://localhost:8080',
-          model: process.env.LLM_MODEL || 'model.gguf'
-        };
-      } else if (providerType === 'mlx') {
-        return {
-          type: 'mlx',
-          model: process.env.LLM_MODEL || './models/local-model'
-        };
-      } else {
-        // Default to OpenAI
-        return {
-          type: 'openai',
-          baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
-          model: process.env.LLM_MODEL || 'gpt-3.5-turbo',
-          apiKey: process.env.OPENAI_API_KEY
-        };
+      const fallbacks = (process.env.LLM_FALLBACK_PROVIDERS || '').split(',').map(type => type.trim()).filter(Boolean);
+      const unknown = fallbacks.filter(type => !PROVIDER_TYPES.includes(type as LLMProviderConfig['type']));
+      if (unknown.length) {
+        console.warn(`Ignoring unknown LLM fallback providers: ${unknown.join(', ')}`);
       }
+      const providers = [process.env.LLM_PROVIDER || 'openai', ...fallbacks.filter(type => !unknown.includes(type))]
+        .map(type => this.configFromEnv(type));
+      return { providers, circuitBreaker };
     } catch (error) {
       console.error('Failed to load LLM configuration:', error);
       return null;
     }
   }
   
+  private configFromEnv(providerType: string): LLMProviderConfig {
+    const common = {
+      ...(process.env.LLM_TIMEOUT_MS && { timeoutMs: Number(process.env.LLM_TIMEOUT_MS) }),
+      ...(process.env.LLM_MAX_RETRIES && { maxRetries: Number(process.env.LLM_MAX_RETRIES) })
+    };
+    
+    if (providerType === 'lmstudio') {
+      return {
+        type: 'lmstudio',
+        baseUrl: process.env.LMSTUDIO_BASE_URL || 'http://localhost:1234',
+        model: process.env.LMSTUDIO_MODEL || process.env.LLM_MODEL || 'local-model',
+        ...common
+      };
+    } else if (providerType === 'ollama') {
+      return {
+        type: 'ollama',
+        baseUrl: process.env.OLLAMA_BASE_URL || 'http://localhost:11434',
+        model: process.env.OLLAMA_MODEL || process.env.LLM_MODEL || 'llama2',
+        ...common
+      };
+    } else if (providerType === 'llamacpp') {
+      return {
+        type: 'llamacpp',
+        baseUrl: process.env.LLAMACPP_BASE_URL || 'http://localhost:8080',
+        model: process.env.LLAMACPP_MODEL || process.env.LLM_MODEL || 'model.gguf',
+        ...common
+      };
+    } else if (providerType === 'mlx') {
+      return {
+        type: 'mlx',
+        model: process.env.MLX_MODEL || process.env.LLM_MODEL || './models/local-model',
+        ...common
+      };
+    } else {
+      // Default to OpenAI
+      return {
+        type: 'openai',
+        baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+        model: process.env.OPENAI_MODEL || process.env.LLM_MODEL || 'gpt-3.5-turbo',
+        apiKey: process.env.OPENAI_API_KEY,
+        ...common
+      };
+    }
+  }
+  
   private createProvider(config: LLMProviderConfig): LLMProvider {
     switch (config.type) {
       case 'lmstudio':
@@ -336,20 +549,86 @@ export class LocalLLMService {
     }
   }
   
-  async generateCompletion(prompt: string, options?: any): Promise<string> {
-    if (!this.provider) {
+  /**
+   * One breaker per endpoint, kept across initialize() calls.
+   */
+  private breakerFor(config: LLMProviderConfig, options: CircuitBreakerOptions): CircuitBreaker {
+    const key = `${config.type} ${config.baseUrl || ''} ${config.model}`;
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(options);
+      this.breakers.set(key, breaker);
+    }
+    return breaker;
+  }
+  
+  async generateCompletion(prompt: string, options?: CompletionOptions): Promise<string> {
+    if (this.chain.length === 0) {
       throw new Error('LLM service not initialized');
     }
     
-    return await this.provider.generateCompletion(prompt, options);
+    const failures: string[] = [];
+    for (const { provider, breaker, unhealthy } of this.chain) {
+      if (unhealthy) {
+        failures.push(`${provider.name}: not healthy`);
+        continue;
+      }
+      if (!breaker.tryAcquire()) {
+        failures.push(`${provider.name}: circuit open after repeated failures`);
+        continue;
+      }
+      
+      const config = provider.getConfig();
+      try {
+        const completion = await withRetry(() => provider.generateCompletion(prompt, options), {
+          maxRetries: config.maxRetries ?? DEFAULT_MAX_RETRIES,
+          baseDelayMs: config.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS,
+          signal: options?.signal
+        });
+        breaker.recordSuccess();
+        this.lastProvider = provider;
+        return completion;
+      } catch (error) {
+        // A cancelled call says nothing about the provider and must not fall through to the next one
+        if (options?.signal?.aborted) {
+          breaker.release();
+          throw error;
+        }
+        breaker.recordFailure();
+        failures.push(`${provider.name}: ${describeError(error)}`);
+        console.warn(`${provider.name} completion failed: ${describeError(error)}`);
+      }
+    }
+    
+    throw new Error(`All LLM providers failed. ${failures.join('; ')}`);
   }
   
+  /**
+   * Provider that served the last completion, else the first one that will be tried.
+   */
   getProviderName(): string {
-    return this.provider?.name || 'Unknown';
+    const next = this.chain.find(entry => !entry.unhealthy && entry.breaker.allowsRequest());
+    return (this.lastProvider || next?.provider)?.name || 'Unknown';
+  }
+  
+  /**
+   * Every provider of the chain in order, with its circuit breaker state.
+   */
+  getProviderStatus(): ProviderStatus[] {
+    return this.chain.map(({ provider, breaker, unhealthy }) => {
+      const config = provider.getConfig();
+      return {
+        name: provider.name,
+        type: config.type,
+        model: config.model,
+        ...breaker.getStatus(),
+        ...(unhealthy && { healthy: false })
+      };
+    });
   }
   
   isInitialized(): boolean {
-    return this.provider !== null;
+    return this.chain.length > 0;
   }
 }
 
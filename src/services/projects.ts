@@ -0,0 +1,151 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { CoverageThresholds, getConfig, PackageManager, ProjectConfig, saveConfigFile } from '../config.js';
+import { ToolError } from '../plugins/types.js';
+import { assertAllowedPath } from './sandbox.js';
+
+export interface Project extends ProjectConfig {
+  id: string;
+  packageManager: PackageManager;
+}
+
+export const PACKAGE_MANAGERS: PackageManager[] = ['npm', 'pnpm', 'yarn', 'bun'];
+const PROJECT_ID = /^[\w.-]+$/;
+
+const LOCKFILES: Array<[string, PackageManager]> = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['bun.lockb', 'bun'],
+  ['bun.lock', 'bun'],
+  ['package-lock.json', 'npm']
+];
+
+/**
+ * Registered projects from mcp.config.json, by ID.
+ */
+export function listProjects(): Project[] {
+  return Object.keys(getConfig().projects || {}).map(id => getProject(id)!);
+}
+
+export function getProject(id: string): Project | undefined {
+  const project = getConfig().projects?.[id];
+  if (!project) return undefined;
+  const root = path.resolve(project.root);
+  return { ...project, id, root, packageManager: project.packageManager || detectPackageManager(root) };
+}
+
+/**
+ * The registered project living at `root`, if any. Lets services pick up a project's settings
+ * whether the tool was called with its ID or its path.
+ */
+export function findProjectByRoot(root: string): Project | undefined {
+  const resolved = path.resolve(root);
+  return listProjects().find(project => project.root === resolved);
+}
+
+/**
+ * Adds or replaces a project and writes the registry back to mcp.config.json.
+ */
+export async function saveProject(id: string, project: ProjectConfig): Promise<Project> {
+  if (!PROJECT_ID.test(id)) {
+    throw new ToolError(`Invalid project ID ${id}: use letters, digits, dots, dashes and underscores`, 400);
+  }
+  if (!path.isAbsolute(project.root)) {
+    throw new ToolError(`Project root must be an absolute path, got ${project.root}`, 400);
+  }
+  assertAllowedPath(project.root, 'Project root');
+  const stat = await fs.stat(project.root).catch(() => null);
+  if (!stat?.isDirectory()) {
+    throw new ToolError(`Project root ${project.root} is not a directory`, 400);
+  }
+
+  await saveConfigFile({ projects: { ...getConfig().projects, [id]: { ...project, root: path.resolve(project.root) } } });
+  return getProject(id)!;
+}
+
+/**
+ * Removes a project from the registry. Returns false when there was no such project.
+ */
+export async function removeProject(id: string): Promise<boolean> {
+  const { [id]: removed, ...projects } = getConfig().projects || {};
+  if (!removed) return false;
+  await saveConfigFile({ projects, ...(getConfig().defaultProject === id && { defaultProject: undefined }) });
+  return true;
+}
+
+/**
+ * Root of the project a tool runs against: the registered project `projectId`, else `projectPath`,
+ * else the default project. Throws a 404 ToolError for unknown IDs and a 403 one for paths outside
+ * the allowed roots.
+ */
+export function resolveProjectRoot(input: { projectId?: string; projectPath?: string }): string {
+  if (input.projectId) {
+    const project = getProject(input.projectId);
+    if (!project) {
+      throw new ToolError(`Unknown project ${input.projectId}`, 404, { projects: listProjects().map(p => p.id) });
+    }
+    return project.root;
+  }
+  return assertAllowedPath(input.projectPath || defaultProjectRoot(), 'Project');
+}
+
+/**
+ * `defaultProject` from mcp.config.json if set, else the configured projectRoot (the server's working directory by default).
+ */
+export function defaultProjectRoot(): string {
+  const { defaultProject, projectRoot } = getConfig();
+  return (defaultProject && getProject(defaultProject)?.root) || projectRoot;
+}
+
+/**
+ * Coverage thresholds of the project at `root`, falling back to the server-wide ones.
+ */
+export function getCoverageThresholds(root: string): CoverageThresholds {
+  return findProjectByRoot(root)?.coverageThresholds || getConfig().coverageThresholds;
+}
+
+/**
+ * Package manager of a project: the registered one, else the one whose lockfile is present, else npm.
+ */
+export function packageManagerFor(root: string): PackageManager {
+  return findProjectByRoot(root)?.packageManager || detectPackageManager(root);
+}
+
+function detectPackageManager(root: string): PackageManager {
+  return LOCKFILES.find(([lockfile]) => fs.existsSync(path.join(root, lockfile)))?.[1] || 'npm';
+}
+
+/**
+ * Command and leading arguments that run the project's own Vitest binary, plus the `--config`
+ * arguments of a registered Vitest config. Run as `[command, ...prefix, ...args, ...suffix]`.
+ */
+export function vitestCommand(root: string): { command: string; prefix: string[]; suffix: string[] } {
+  const project = findProjectByRoot(root);
+  const suffix = project?.vitestConfig ? ['--config', path.resolve(project.root, project.vitestConfig)] : [];
+  switch (project?.packageManager || detectPackageManager(root)) {
+    case 'pnpm':
+      return { command: 'pnpm', prefix: ['exec', 'vitest'], suffix };
+    case 'yarn':
+      return { command: 'yarn', prefix: ['vitest'], suffix };
+    case 'bun':
+      return { command: 'bunx', prefix: ['vitest'], suffix };
+    default:
+      return { command: 'npx', prefix: ['vitest'], suffix };
+  }
+}
+
+/**
+ * Command that adds development dependencies with the project's package manager.
+ */
+export function addDevDependenciesCommand(root: string, packages: string[]): string {
+  switch (packageManagerFor(root)) {
+    case 'pnpm':
+      return `pnpm add -D ${packages.join(' ')}`;
+    case 'yarn':
+      return `yarn add -D ${packages.join(' ')}`;
+    case 'bun':
+      return `bun add -d ${packages.join(' ')}`;
+    default:
+      return `npm install --save-dev ${packages.join(' ')}`;
+  }
+}
@@ -0,0 +1,274 @@
+import fs from 'fs-extra';
+import { glob } from 'glob';
+import path from 'path';
+import ts from 'typescript';
+import { readCompilerOptions } from './testVerification.js';
+
+/** One file of context shown to the LLM next to the component source */
+export interface ContextSection {
+  /** Relative to the project root */
+  file: string;
+  kind: 'import' | 'test-utility' | 'setup' | 'sibling';
+  /** Specifier a test at the destination path imports the file with; setup files are not imported */
+  importPath?: string;
+  /** Specifier the component itself uses, when it differs from importPath (e.g. a tsconfig paths alias) */
+  importedAs?: string;
+  /** Exported declarations: types and enums in full, functions and components as signatures */
+  content: string;
+  tokens: number;
+}
+
+export interface PromptDependencies {
+  sections: ContextSection[];
+  /** Files that were found but did not fit the budget, relative to the project root */
+  omitted: string[];
+  tokens: number;
+}
+
+export const DEFAULT_CONTEXT_TOKENS = 3000;
+
+// Used when the project has no tsconfig.json, e.g. plain JavaScript projects
+const FALLBACK_COMPILER_OPTIONS: ts.CompilerOptions = {
+  allowJs: true,
+  jsx: ts.JsxEmit.ReactJSX,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler
+};
+const SOURCE_EXTENSIONS = '{ts,tsx,js,jsx,mts,cts,mjs,cjs}';
+const IGNORED_DIRS = ['**/node_modules/**', '**/dist/**', '**/build/**', '**/coverage/**'];
+const TEST_UTILITY_PATTERNS = [
+  `**/{test-utils,testUtils,test-helpers,testHelpers}.${SOURCE_EXTENSIONS}`,
+  `**/{test-utils,testUtils,test-helpers,testHelpers}/index.${SOURCE_EXTENSIONS}`,
+  `**/{test,tests,testing,__tests__}/{utils,helpers,render,renderWithProviders}.${SOURCE_EXTENSIONS}`
+];
+const SETUP_FILE_PATTERNS = [
+  `{,src/,test/,tests/,src/test/,src/tests/}{setupTests,setup-tests,vitest.setup,test-setup}.${SOURCE_EXTENSIONS}`,
+  `{test,tests,src/test,src/tests}/setup.${SOURCE_EXTENSIONS}`
+];
+const MAX_INITIALIZER_LENGTH = 200;
+
+/**
+ * Collects what a test of `filePath` needs besides the file itself, most useful first: the exported
+ * types and signatures of the local modules it imports (resolved through the tsconfig `paths`), the
+ * project's test utilities such as custom `render` wrappers, the setup files with their global mocks,
+ * and the hooks and context providers next to the file. Sections are added in that order while they fit
+ * `tokenBudget`; the rest are listed in `omitted`.
+ */
+export async function gatherPromptDependencies(
+  projectRoot: string,
+  filePath: string,
+  testFilePath: string,
+  tokenBudget = DEFAULT_CONTEXT_TOKENS
+): Promise<PromptDependencies> {
+  const root = path.resolve(projectRoot);
+  const compilerOptions = readCompilerOptions(root, filePath) || FALLBACK_COMPILER_OPTIONS;
+  const source = parseSource(filePath, await fs.readFile(filePath, 'utf-8'));
+  const seen = new Set([path.resolve(filePath)]);
+  const candidates: Array<Omit<ContextSection, 'tokens'>> = [];
+
+  const addCandidate = (file: string, kind: ContextSection['kind'], content: string, importedAs?: string) => {
+    if (seen.has(file) || !content) return;
+    seen.add(file);
+    const importPath = kind === 'setup' ? undefined : relativeImportPath(testFilePath, file);
+    candidates.push({
+      file: path.relative(root, file),
+      kind,
+      importPath,
+      ...(importedAs && importedAs !== importPath && { importedAs }),
+      content
+    });
+  };
+
+  for (const { specifier, names } of collectImports(source)) {
+    const resolved = ts.resolveModuleName(specifier, filePath, compilerOptions, ts.sys).resolvedModule;
+    if (!resolved || resolved.isExternalLibraryImport) continue;
+    const file = path.resolve(resolved.resolvedFileName);
+    if (!isInside(root, file) || file.includes(`${path.sep}node_modules${path.sep}`)) continue;
+    addCandidate(file, 'import', await outlineFile(file, names), specifier);
+  }
+
+  for (const file of await findFiles(root, TEST_UTILITY_PATTERNS)) {
+    addCandidate(file, 'test-utility', await outlineFile(file));
+  }
+  for (const file of await findFiles(root, SETUP_FILE_PATTERNS)) {
+    addCandidate(file, 'setup', (await fs.readFile(file, 'utf-8')).trim());
+  }
+
+  const siblings = (await fs.readdir(path.dirname(filePath)))
+    .filter(name => /^use[A-Z0-9].*\.[cm]?[jt]sx?$|(Context|Provider)\.[cm]?[jt]sx?$/.test(name) && !/\.(test|spec)\./.test(name))
+    .sort();
+  for (const name of siblings) {
+    const file = path.join(path.dirname(filePath), name);
+    addCandidate(file, 'sibling', await outlineFile(file));
+  }
+
+  const sections: ContextSection[] = [];
+  const omitted: string[] = [];
+  let tokens = 0;
+  for (const candidate of candidates) {
+    const sectionTokens = estimateTokens(candidate.content) + estimateTokens(candidate.file);
+    if (tokens + sectionTokens > tokenBudget) {
+      omitted.push(candidate.file);
+      continue;
+    }
+    tokens += sectionTokens;
+    sections.push({ ...candidate, tokens: sectionTokens });
+  }
+  return { sections, omitted, tokens };
+}
+
+/**
+ * Import specifier of `target` from a test at `testFilePath`: relative, without the extension
+ * and without a trailing /index, the way Vite resolves it.
+ */
+export function relativeImportPath(testFilePath: string, target: string): string {
+  let specifier = path.relative(path.dirname(testFilePath), target)
+    .split(path.sep).join('/')
+    .replace(/\.[cm]?[jt]sx?$/, '')
+    .replace(/\/index$/, '');
+  if (!specifier.startsWith('.')) specifier = `./${specifier}`;
+  return specifier;
+}
+
+/**
+ * Rough token count; about four characters per token for code in the common tokenizers.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function parseSource(file: string, text: string): ts.SourceFile {
+  const kind = /\.[cm]?jsx$/.test(file) || file.endsWith('.js') ? ts.ScriptKind.JSX : file.endsWith('.tsx') ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+  return ts.createSourceFile(file, text, ts.ScriptTarget.Latest, true, kind);
+}
+
+/**
+ * Module specifiers the file imports or re-exports, with the names it uses from each (`default` for
+ * default imports); an empty list means the whole module, as with namespace and side-effect imports.
+ */
+function collectImports(source: ts.SourceFile): Array<{ specifier: string; names: string[] }> {
+  const imports = new Map<string, Set<string>>();
+  for (const statement of source.statements) {
+    if (!(ts.isImportDeclaration(statement) || ts.isExportDeclaration(statement))) continue;
+    if (!statement.moduleSpecifier || !ts.isStringLiteral(statement.moduleSpecifier)) continue;
+    const names = imports.get(statement.moduleSpecifier.text) || new Set<string>();
+    imports.set(statement.moduleSpecifier.text, names);
+
+    if (ts.isImportDeclaration(statement)) {
+      const clause = statement.importClause;
+      if (clause?.name) names.add('default');
+      if (clause?.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+        clause.namedBindings.elements.forEach(element => names.add((element.propertyName || element.name).text));
+      }
+    } else if (statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      statement.exportClause.elements.forEach(element => names.add((element.propertyName || element.name).text));
+    }
+  }
+  return [...imports].map(([specifier, names]) => ({ specifier, names: [...names] }));
+}
+
+/**
+ * Declarations of a file a test needs, the ones named in `first` leading: all types, interfaces and
+ * enums in full (props interfaces are often not exported), and the exported functions, components and
+ * hooks cut down to their signatures.
+ */
+async function outlineFile(file: string, first: string[] = []): Promise<string> {
+  const source = parseSource(file, await fs.readFile(file, 'utf-8'));
+  const declarations: Array<{ names: string[]; text: string }> = [];
+  // Declarations that are only exported further down, as in `export default Button`
+  const locals = new Map<string, string>();
+
+  for (const statement of source.statements) {
+    if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement)) {
+      declarations.push({ names: [statement.name.text], text: statement.getText(source) });
+      continue;
+    }
+
+    let outline: { names: string[]; text: string } | undefined;
+    if (ts.isFunctionDeclaration(statement) && statement.name) {
+      outline = { names: [statement.name.text], text: withoutBody(source, statement, statement.body) };
+    } else if (ts.isFunctionDeclaration(statement)) {
+      outline = { names: ['default'], text: withoutBody(source, statement, statement.body) };
+    } else if (ts.isClassDeclaration(statement)) {
+      const text = `${source.text.slice(statement.getStart(source), statement.members.pos).trim()} … }`;
+      outline = { names: [statement.name?.text || 'default'], text };
+    } else if (ts.isVariableStatement(statement)) {
+      const names = statement.declarationList.declarations.map(declaration => declaration.name.getText(source));
+      outline = { names, text: outlineVariables(source, statement) };
+    } else if (ts.isExportAssignment(statement)) {
+      const local = ts.isIdentifier(statement.expression) ? locals.get(statement.expression.text) : undefined;
+      const fn = unwrapFunction(statement.expression);
+      const text = local ? `${local}\n${statement.getText(source)}` : fn ? `export default ${withoutBody(source, fn, fn.body)}` : statement.getText(source);
+      declarations.push({ names: ['default'], text });
+      continue;
+    } else if (ts.isExportDeclaration(statement)) {
+      declarations.push({ names: exportedNames(statement), text: statement.getText(source) });
+      continue;
+    }
+    if (!outline) continue;
+
+    if (hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+      declarations.push(hasModifier(statement, ts.SyntaxKind.DefaultKeyword) ? { ...outline, names: ['default'] } : outline);
+    } else {
+      outline.names.forEach(name => locals.set(name, outline!.text));
+    }
+  }
+
+  const rank = (names: string[]) => (names.some(name => first.includes(name)) ? 0 : 1);
+  return declarations
+    .map((declaration, index) => ({ ...declaration, index }))
+    .sort((a, b) => rank(a.names) - rank(b.names) || a.index - b.index)
+    .map(declaration => declaration.text)
+    .join('\n');
+}
+
+function outlineVariables(source: ts.SourceFile, statement: ts.VariableStatement): string {
+  const prefix = source.text.slice(statement.getStart(source), statement.declarationList.declarations[0].getStart(source)).trim();
+  return statement.declarationList.declarations.map(declaration => {
+    const head = `${prefix} ${declaration.name.getText(source)}${declaration.type ? `: ${declaration.type.getText(source)}` : ''}`;
+    const initializer = declaration.initializer;
+    if (!initializer) return `${head};`;
+    // Components and hooks written as arrow functions, possibly wrapped in memo() or forwardRef()
+    const fn = unwrapFunction(initializer);
+    if (fn) {
+      const wrapper = fn === initializer ? '' : `${(initializer as ts.CallExpression).expression.getText(source)}(`;
+      return `${head} = ${wrapper}${withoutBody(source, fn, fn.body)}${wrapper ? ')' : ''};`;
+    }
+    const text = initializer.getText(source);
+    return `${head} = ${text.length > MAX_INITIALIZER_LENGTH ? `${text.slice(0, MAX_INITIALIZER_LENGTH)} …` : text};`;
+  }).join('\n');
+}
+
+function exportedNames(statement: ts.ExportDeclaration): string[] {
+  if (!statement.exportClause || !ts.isNamedExports(statement.exportClause)) return [];
+  return statement.exportClause.elements.map(element => element.name.text);
+}
+
+function unwrapFunction(node: ts.Expression): ts.ArrowFunction | ts.FunctionExpression | undefined {
+  if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) return node;
+  if (ts.isCallExpression(node) && node.arguments.length) {
+    const inner = node.arguments[0];
+    return ts.isArrowFunction(inner) || ts.isFunctionExpression(inner) ? inner : undefined;
+  }
+  return undefined;
+}
+
+function withoutBody(source: ts.SourceFile, node: ts.Node, body: ts.Node | undefined): string {
+  if (!body) return node.getText(source);
+  const start = node.getStart(source);
+  return `${source.text.slice(start, body.getStart(source)).trim()} { … }`;
+}
+
+function hasModifier(statement: ts.Statement, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(statement) && !!ts.getModifiers(statement)?.some(modifier => modifier.kind === kind);
+}
+
+async function findFiles(root: string, patterns: string[]): Promise<string[]> {
+  const files = await glob(patterns, { cwd: root, nodir: true, absolute: true, ignore: IGNORED_DIRS });
+  return files.map(file => path.resolve(file)).sort();
+}
+
+function isInside(root: string, file: string): boolean {
+  const relative = path.relative(root, file);
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
@@ -0,0 +1,69 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { getConfig } from '../config.js';
+import { ToolError } from '../plugins/types.js';
+
+/**
+ * Directories the tools may touch: `allowedRoots` from mcp.config.json (or MCP_ALLOWED_ROOTS),
+ * else projectRoot, plus the roots of registered projects. Symlinks are resolved, so a link inside
+ * an allowed root cannot point the tools elsewhere.
+ */
+export function getAllowedRoots(): string[] {
+  const { allowedRoots, projectRoot, projects } = getConfig();
+  const roots = [...(allowedRoots?.length ? allowedRoots : [projectRoot]), ...Object.values(projects || {}).map(p => p.root)];
+  return [...new Set(roots.map(root => realPath(path.resolve(root))))];
+}
+
+/**
+ * Resolves `target` and throws a 403 ToolError unless it lies in an allowed root.
+ * Returns the absolute path as given, without symlinks resolved.
+ */
+export function assertAllowedPath(target: string, label = 'Path'): string {
+  const resolved = path.resolve(target);
+  const real = realPath(resolved);
+  if (!getAllowedRoots().some(root => isInside(root, real))) {
+    throw new ToolError(`${label} ${target} is outside the allowed roots`, 403, { path: target });
+  }
+  return resolved;
+}
+
+/**
+ * Resolves a file given as absolute or relative to the project root, and throws a 403 ToolError
+ * unless it lies inside the project, after following symlinks and `..` segments.
+ */
+export function resolveProjectFile(projectRoot: string, file: string): string {
+  const resolved = path.resolve(projectRoot, file);
+  if (!isInside(realPath(path.resolve(projectRoot)), realPath(resolved))) {
+    throw new ToolError(`File ${file} is outside the project ${projectRoot}`, 403, { path: file });
+  }
+  return resolved;
+}
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === '' || (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+}
+
+/**
+ * Real path of an absolute path that may not exist yet: its nearest existing ancestor with
+ * symlinks resolved, plus the rest. Dangling symlinks are followed too, since writing through
+ * one creates its target.
+ */
+function realPath(absolute: string, depth = 0): string {
+  let existing = absolute;
+  while (!fs.lstatSync(existing, { throwIfNoEntry: false })) {
+    const parent = path.dirname(existing);
+    if (parent === existing) return absolute;
+    existing = parent;
+  }
+
+  let real: string;
+  try {
+    real = fs.realpathSync(existing);
+  } catch {
+    // Symlink loops fail when used anyway
+    if (depth > 32) return absolute;
+    real = realPath(path.resolve(path.dirname(existing), fs.readlinkSync(existing)), depth + 1);
+  }
+  return path.join(real, path.relative(existing, absolute));
+}
@@ -0,0 +1,26 @@
+import fs from 'fs-extra';
+import path from 'path';
+
+/** Name of the directory in a project root that holds the server's baselines, history and watch coverage */
+export const STATE_DIRECTORY = '.vitest-mcp';
+
+/**
+ * Path inside the state directory of a project.
+ */
+export function statePath(projectRoot: string, ...segments: string[]): string {
+  return path.join(path.resolve(projectRoot), STATE_DIRECTORY, ...segments);
+}
+
+/**
+ * Creates a directory inside the state directory of a project and returns its path. The state
+ * directory gets a `.gitignore` ignoring everything in it, so its files never show up as changes.
+ */
+export async function ensureStateDirectory(projectRoot: string, ...segments: string[]): Promise<string> {
+  const gitignore = statePath(projectRoot, '.gitignore');
+  if (!(await fs.pathExists(gitignore))) {
+    await fs.outputFile(gitignore, '*\n');
+  }
+  const dir = statePath(projectRoot, ...segments);
+  await fs.ensureDir(dir);
+  return dir;
+}
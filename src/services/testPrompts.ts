@@ -0,0 +1,248 @@
+import fs from 'fs-extra';
+import { glob } from 'glob';
+import path from 'path';
+import { Position, UncoveredEntry } from '../coverage/istanbul.js';
+import { ContextSection } from './promptContext.js';
+
+/** An uncovered location as the callers pass it; only `file` is required */
+export type CoverageGap = Partial<UncoveredEntry> & { file: string };
+
+export interface TestPromptContext {
+  /** Source file, relative to the project root */
+  filePath: string;
+  source: string;
+  /** Test file path relative to the project root */
+  testFile: string;
+  /** Import specifier of the source file as seen from the test file */
+  importPath: string;
+  /** Uncovered locations of the file; without locations the prompt asks for general tests */
+  gaps: CoverageGap[];
+  /** An existing test of the file, relative to the project root, and its content */
+  existingTest?: { file: string; content: string };
+  /** Imported types, test utilities, setup files and neighbouring hooks, from gatherPromptDependencies */
+  dependencies?: ContextSection[];
+}
+
+interface GapRegion {
+  start: number;
+  end: number;
+  descriptions: string[];
+}
+
+const TEST_FILE_EXTENSIONS = '{ts,tsx,js,jsx,mts,cts,mjs,cjs}';
+const MAX_EXISTING_TEST_LENGTH = 8000;
+const MAX_LISTED_GAPS = 30;
+
+/**
+ * Prompt for a new test of one file. With uncovered locations the source is shown with numbered
+ * lines and marker comments around each uncovered region, and the LLM is asked to exercise exactly
+ * those paths; otherwise it is asked for general tests of the component.
+ */
+export function buildTestPrompt(context: TestPromptContext): string {
+  const regions = gapRegions(context.gaps);
+  const header = `You are a senior front-end engineer. Write a **Vitest** test file for the React component located at "${context.filePath}".
+The test file is saved as "${context.testFile}", so import the component from "${context.importPath}".`;
+
+  const requirements = regions.length
+    ? `The existing tests leave the regions marked UNCOVERED in the source below unexecuted:
+${listRegions(regions)}
+
+The test must:
+1. Import the component with proper relative path.
+2. Exercise each numbered region: render it with the props, state and user interactions (\`userEvent\`, \`fireEvent\`) that make that code run, and take the branch arm that never ran.
+3. Assert on the behaviour those paths produce, not only that something rendered.
+4. Use Vitest matchers and @testing-library/react.
+5. Not repeat what the existing tests already cover.`
+    : `The test must:
+1. Import the component with proper relative path.
+2. Render it with typical props (use sensible defaults).
+3. Check for presence of the main UI element using @testing-library/react.
+4. Cover any props that affect rendering (use \`screen.getByRole\`, \`userEvent\`, etc.).
+5. Use Vitest matchers and @testing-library/react.
+6. Include at least one snapshot test (optional).
+7. Handle common edge cases for the component.`;
+
+  return `${header}
+${requirements}
+
+Return only the TSX/TS code – no markdown, no explanations.
+${sourceSection(context, regions)}`;
+}
+
+/**
+ * Follow-up prompt asking the LLM to fix a test that was rejected, with the same source context.
+ */
+export function buildRepairPrompt(context: TestPromptContext, test: string, errors: string[]): string {
+  return `You wrote this **Vitest** test file for the React component located at "${context.filePath}":
+\`\`\`
+${test}
+\`\`\`
+
+It was rejected:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Fix the test so that it type-checks, passes and covers the lines the existing tests miss.
+Return the complete corrected TSX/TS test file only – no markdown, no explanations.
+${sourceSection(context, gapRegions(context.gaps))}`;
+}
+
+/**
+ * Finds a test of the source file: files named like it with .test or .spec anywhere in the project
+ * outside node_modules, preferring one whose relative imports resolve to the file. Returns undefined
+ * when several match by name and none imports it.
+ */
+export async function findExistingTest(projectRoot: string, filePath: string): Promise<{ file: string; content: string } | undefined> {
+  const name = path.basename(filePath, path.extname(filePath)).replace(/[[\]{}()*?!]/g, '\\$&');
+  const candidates = (await glob(`**/${name}.{test,spec}.${TEST_FILE_EXTENSIONS}`, {
+    cwd: projectRoot,
+    nodir: true,
+    absolute: true,
+    ignore: ['**/node_modules/**', '**/*.ai-scratch-*']
+  })).sort();
+  if (candidates.length === 0) return undefined;
+
+  let match: { file: string; content: string } | undefined;
+  for (const candidate of candidates) {
+    const content = await fs.readFile(candidate, 'utf-8');
+    if (importsFile(candidate, content, filePath)) {
+      match = { file: candidate, content };
+      break;
+    }
+  }
+  if (!match && candidates.length === 1) {
+    match = { file: candidates[0], content: await fs.readFile(candidates[0], 'utf-8') };
+  }
+  if (!match) return undefined;
+
+  const content = match.content.length > MAX_EXISTING_TEST_LENGTH
+    ? `${match.content.slice(0, MAX_EXISTING_TEST_LENGTH)}\n// … ${match.content.length - MAX_EXISTING_TEST_LENGTH} more characters`
+    : match.content;
+  return { file: path.relative(projectRoot, match.file), content };
+}
+
+function importsFile(testFile: string, content: string, filePath: string): boolean {
+  const target = stripExtension(filePath);
+  const specifiers = content.matchAll(/(?:from\s+|import\s*\(\s*|import\s+|require\s*\(\s*|vi\.mock\s*\(\s*)['"](\.{1,2}\/[^'"]+)['"]/g);
+  for (const [, specifier] of specifiers) {
+    const resolved = stripExtension(path.resolve(path.dirname(testFile), specifier));
+    if (resolved === target || `${resolved}/index` === target) return true;
+  }
+  return false;
+}
+
+function stripExtension(file: string): string {
+  return file.replace(/\.[cm]?[jt]sx?$/, '');
+}
+
+const SECTION_INTROS: Record<ContextSection['kind'], string> = {
+  'import': 'Imported by the component',
+  'test-utility': 'Test utility of the project; prefer its helpers (e.g. a custom render) over the plain ones',
+  'setup': 'Setup file that runs before every test; its mocks and matchers are already in place, do not import it',
+  'sibling': 'Hook or context provider next to the component'
+};
+
+function dependencySection(dependencies: ContextSection[] = []): string {
+  if (!dependencies.length) return '';
+  const sections = dependencies.map(dependency => {
+    const imports = dependency.importPath
+      ? ` – import it from "${dependency.importPath}"${dependency.importedAs ? ` (the component uses "${dependency.importedAs}")` : ''}`
+      : '';
+    return `${SECTION_INTROS[dependency.kind]}: "${dependency.file}"${imports}
+\`\`\`
+${dependency.content}
+\`\`\``;
+  });
+  return `Related project code (declarations only, bodies elided; use these exact names, props and import paths):
+${sections.join('\n')}
+`;
+}
+
+function sourceSection(context: TestPromptContext, regions: GapRegion[]): string {
+  const existing = context.existingTest
+    ? `Existing tests of this component ("${context.existingTest.file}"):
+\`\`\`
+${context.existingTest.content}
+\`\`\`
+`
+    : '';
+  const source = regions.length ? annotateSource(context.source, regions) : context.source;
+  return `${dependencySection(context.dependencies)}${existing}Component source${regions.length ? ' (line numbers added, uncovered regions marked)' : ''}:
+\`\`\`
+${source}
+\`\`\``;
+}
+
+/**
+ * Uncovered locations merged into numbered line regions. Overlapping locations share a region and
+ * all of their descriptions.
+ */
+function gapRegions(gaps: CoverageGap[]): GapRegion[] {
+  const located = gaps
+    .filter((gap): gap is CoverageGap & { start: Position; end: Position } => Boolean(gap.start?.line && gap.end?.line))
+    .map(gap => ({ start: gap.start.line, end: Math.max(gap.start.line, gap.end.line), description: describeGap(gap) }))
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const regions: GapRegion[] = [];
+  for (const gap of located) {
+    const last = regions[regions.length - 1];
+    if (last && gap.start <= last.end) {
+      last.end = Math.max(last.end, gap.end);
+      if (!last.descriptions.includes(gap.description)) last.descriptions.push(gap.description);
+    } else {
+      regions.push({ start: gap.start, end: gap.end, descriptions: [gap.description] });
+    }
+  }
+  return regions;
+}
+
+function describeGap(gap: CoverageGap): string {
+  const where = gap.functionName ? ` in ${gap.functionName}` : '';
+  if (gap.type === 'function') return `function ${gap.functionName || '(anonymous)'} is never called`;
+  if (gap.type !== 'branch') return `the statement on line ${gap.start?.line}${where} never runs`;
+
+  const arm = gap.armIndex ?? 0;
+  switch (gap.branchKind) {
+    case 'if':
+      return `${arm === 0 ? 'the if branch (condition true)' : 'the else path (condition false)'}${where} never runs`;
+    case 'cond-expr':
+      return `the ${arm === 0 ? 'true' : 'false'} side of the ternary${where} never runs`;
+    case 'switch':
+      return `case ${arm + 1} of the switch${where} never runs`;
+    case 'logical':
+      return `operand ${arm + 1} of the logical expression${where} is never evaluated`;
+    case 'default-arg':
+      return `the default value${where} is never used (the argument is always passed)`;
+    default:
+      return `branch arm ${arm + 1}${where} never runs`;
+  }
+}
+
+function listRegions(regions: GapRegion[]): string {
+  const listed = regions.slice(0, MAX_LISTED_GAPS).map((region, i) => {
+    const lines = region.start === region.end ? `line ${region.start}` : `lines ${region.start}-${region.end}`;
+    return `${i + 1}. ${lines}: ${region.descriptions.join('; ')}`;
+  });
+  if (regions.length > MAX_LISTED_GAPS) listed.push(`… and ${regions.length - MAX_LISTED_GAPS} more regions marked in the source`);
+  return listed.join('\n');
+}
+
+/**
+ * Source with line numbers, and `UNCOVERED #n` marker lines around each region.
+ */
+function annotateSource(source: string, regions: GapRegion[]): string {
+  const lines = source.replace(/\r?\n$/, '').split(/\r?\n/);
+  const width = String(lines.length).length;
+  const output: string[] = [];
+
+  lines.forEach((line, i) => {
+    const lineNumber = i + 1;
+    regions.forEach((region, n) => {
+      if (region.start === lineNumber) output.push(`${' '.repeat(width)} | /* ▼ UNCOVERED #${n + 1}: ${region.descriptions.join('; ')} */`);
+    });
+    output.push(`${String(lineNumber).padStart(width)} | ${line}`);
+    regions.forEach((region, n) => {
+      if (region.end === lineNumber) output.push(`${' '.repeat(width)} | /* ▲ end of UNCOVERED #${n + 1} */`);
+    });
+  });
+  return output.join('\n');
+}
@@ -0,0 +1,147 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import ts from 'typescript';
+import { CoverageMap, readCoverageMap } from '../coverage/istanbul.js';
+import { statementLineHits } from '../coverage/summary.js';
+import { ANSI_ESCAPE, JsonReport, runVitest } from './vitest.js';
+
+export interface TestRun {
+  /** Failed assertions and test files that failed to load, one message each */
+  failures: string[];
+  passed: number;
+  /** Coverage of the files the run was asked to measure, keyed by absolute path */
+  coverage: CoverageMap;
+}
+
+const MAX_MESSAGE_LENGTH = 1500;
+const MAX_TYPE_ERRORS = 10;
+
+/**
+ * Runs Vitest with coverage of only `targets`, reported to a temporary directory so the project's
+ * own coverage/ report is left alone. Runs the whole suite unless `testFiles` are given. Failing tests
+ * and coverage thresholds do not reject; a run that produced no report does.
+ */
+export async function measureTestCoverage(
+  projectRoot: string,
+  targets: string[],
+  options: { testFiles?: string[]; signal?: AbortSignal } = {}
+): Promise<TestRun> {
+  const root = path.resolve(projectRoot);
+  const outputDir = path.join(os.tmpdir(), `vitest-mcp-verify-${randomUUID()}`);
+  const reportFile = path.join(outputDir, 'report.json');
+  const coverageDir = path.join(outputDir, 'coverage');
+
+  try {
+    const args = [
+      'run',
+      ...(options.testFiles || []),
+      '--passWithNoTests',
+      '--reporter=json',
+      `--outputFile.json=${reportFile}`,
+      '--coverage.enabled',
+      '--coverage.reporter=json',
+      `--coverage.reportsDirectory=${coverageDir}`,
+      '--coverage.reportOnFailure',
+      ...targets.map(target => `--coverage.include=${path.relative(root, path.resolve(root, target)).split(path.sep).join('/')}`)
+    ];
+    let stderr = '';
+    try {
+      ({ stderr } = await runVitest(root, args, options));
+    } catch (error: any) {
+      if (options.signal?.aborted || !(await fs.pathExists(reportFile))) throw error;
+      stderr = error.stderr || '';
+    }
+
+    const report: JsonReport = await fs.readJson(reportFile);
+    const coverageFile = path.join(coverageDir, 'coverage-final.json');
+    if (!(await fs.pathExists(coverageFile))) {
+      throw { error: 'Vitest wrote no coverage report; is a coverage provider installed?', stderr };
+    }
+    const coverage = Object.fromEntries(Object.entries(await readCoverageMap(coverageFile)).map(([file, data]) => [path.resolve(file), data]));
+
+    const failures: string[] = [];
+    let passed = 0;
+    for (const fileResult of report.testResults) {
+      if (fileResult.message) {
+        failures.push(truncate(`${path.relative(root, fileResult.name)} failed to load: ${fileResult.message.replace(ANSI_ESCAPE, '')}`));
+      }
+      for (const test of fileResult.assertionResults) {
+        if (test.status === 'passed') passed++;
+        if (test.status !== 'failed') continue;
+        const fullName = [...test.ancestorTitles.filter(Boolean), test.title].join(' > ');
+        failures.push(truncate(`${fullName}: ${(test.failureMessages[0] || 'failed').replace(ANSI_ESCAPE, '')}`));
+      }
+    }
+    return { failures, passed, coverage };
+  } finally {
+    await fs.remove(outputDir).catch(() => {});
+  }
+}
+
+/**
+ * Lines of a file that have a statement, and those that ran. Missing coverage counts as nothing covered.
+ */
+export function coveredLines(coverage: CoverageMap, file: string): { coverable: number[]; covered: number[] } {
+  const data = coverage[path.resolve(file)];
+  if (!data) return { coverable: [], covered: [] };
+  const hits = [...statementLineHits(data)].sort(([a], [b]) => a - b);
+  return {
+    coverable: hits.map(([line]) => line),
+    covered: hits.filter(([, count]) => count > 0).map(([line]) => line)
+  };
+}
+
+/**
+ * Type errors in a TypeScript file, checked with the compiler options of the nearest tsconfig.json.
+ * Errors in other files are left out. Returns nothing for JavaScript files or projects without a tsconfig.
+ */
+export function typeCheckFile(projectRoot: string, file: string): string[] {
+  if (!/\.[cm]?tsx?$/.test(file)) return [];
+  const options = readCompilerOptions(projectRoot, file);
+  if (!options) return [];
+
+  const program = ts.createProgram({
+    rootNames: [file],
+    options: { ...options, noEmit: true, skipLibCheck: true, incremental: false, composite: false }
+  });
+  const sourceFile = program.getSourceFile(file);
+  if (!sourceFile) return [];
+
+  return [...program.getSyntacticDiagnostics(sourceFile), ...program.getSemanticDiagnostics(sourceFile)]
+    .filter(diagnostic => diagnostic.category === ts.DiagnosticCategory.Error)
+    .slice(0, MAX_TYPE_ERRORS)
+    .map(diagnostic => {
+      const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+      if (diagnostic.start === undefined) return message;
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(diagnostic.start);
+      return `Line ${line + 1}, column ${character + 1}: ${message}`;
+    });
+}
+
+/**
+ * Compiler options of the tsconfig.json nearest to a file, if it lies inside the project.
+ */
+export function readCompilerOptions(projectRoot: string, file: string): ts.CompilerOptions | undefined {
+  const configFile = ts.findConfigFile(path.dirname(file), ts.sys.fileExists);
+  if (!configFile || path.relative(path.resolve(projectRoot), configFile).startsWith('..')) return undefined;
+
+  let parsed = parseTsconfig(configFile);
+  if (!parsed) return undefined;
+  // Vite's templates keep the options in referenced configs (tsconfig.app.json) and none in tsconfig.json
+  if (!parsed.fileNames.length && parsed.projectReferences?.length) {
+    parsed = parseTsconfig(ts.resolveProjectReferencePath(parsed.projectReferences[0])) || parsed;
+  }
+  return parsed.options;
+}
+
+function parseTsconfig(configFile: string): ts.ParsedCommandLine | undefined {
+  const { config, error } = ts.readConfigFile(configFile, ts.sys.readFile);
+  if (error) return undefined;
+  return ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configFile), undefined, configFile);
+}
+
+function truncate(message: string): string {
+  return message.length > MAX_MESSAGE_LENGTH ? `${message.slice(0, MAX_MESSAGE_LENGTH)}…` : message;
+}
@@ -0,0 +1,376 @@
+import path from 'path';
+import ts from 'typescript';
+import type { CoverageThresholds } from '../config.js';
+
+/**
+ * Edits Vite and Vitest config files through their syntax tree. Only the properties that change are
+ * rewritten; everything else, including comments and formatting, is kept as it is.
+ */
+
+export type CoverageProvider = 'v8' | 'istanbul';
+
+export interface TestConfigDefaults {
+  globals: boolean;
+  environment: string;
+  setupFiles: string;
+  coverage: {
+    provider: CoverageProvider;
+    reporter: string[];
+    thresholds: CoverageThresholds;
+  };
+}
+
+export interface TestConfigPatch {
+  content: string;
+  /** What was changed, one entry per edit */
+  changes: string[];
+  /** Parts of the config that could not be merged and need a look */
+  warnings: string[];
+  /** `test.environment` after the patch, when it is a string literal */
+  environment?: string;
+  /** `test.coverage.provider` after the patch, when it is a string literal */
+  provider?: string;
+  /** Whether the patch added `test.setupFiles` */
+  addedSetupFiles: boolean;
+}
+
+// Threshold keys Vitest 0.x read from `coverage` itself; Vitest 1 moved them into `coverage.thresholds`
+const LEGACY_THRESHOLD_KEYS = ['statements', 'branches', 'functions', 'lines', 'perFile', 'autoUpdate', '100'];
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** Key and value of a property to insert, and comments to put above it */
+type PropertyEntry = [key: string, value: unknown, comments?: string[]];
+
+/** Source text inserted as is */
+class Raw {
+  constructor(readonly text: string) {}
+}
+
+/**
+ * Source of a new Vitest config file with the React plugin and the given `test` block.
+ */
+export function createTestConfig(defaults: TestConfigDefaults): string {
+  return `import { defineConfig } from 'vitest/config';\n` +
+    `import react from '@vitejs/plugin-react';\n\n` +
+    `export default defineConfig({\n` +
+    `  plugins: [react()],\n` +
+    `  test: ${renderValue(defaults, '  ', "'")}\n` +
+    `});\n`;
+}
+
+/**
+ * Merges a `test` block into an existing config. Keys the config already sets are kept, except for
+ * the removed `c8` coverage provider and threshold keys outside `coverage.thresholds`, which are
+ * migrated. `replaceProvider` also replaces a different v8 or istanbul provider.
+ * `typesReference` is added to TypeScript Vite configs so `defineConfig` from `vite` accepts `test`.
+ */
+export function mergeTestConfig(
+  source: string,
+  fileName: string,
+  defaults: TestConfigDefaults,
+  options: { replaceProvider?: boolean; typesReference?: string } = {}
+): TestConfigPatch {
+  const sourceFile = ts.createSourceFile(fileName, source, ts.ScriptTarget.Latest, true, scriptKind(fileName));
+  const quote = (source.match(/"/g)?.length ?? 0) > (source.match(/'/g)?.length ?? 0) ? '"' : "'";
+  const edits: Edit[] = [];
+  const patch: TestConfigPatch = { content: source, changes: [], warnings: [], addedSetupFiles: false };
+  const name = path.basename(fileName);
+
+  const config = findConfigObject(sourceFile);
+  if (!config) {
+    patch.warnings.push(`Could not find the config object exported by ${name}; add the test block by hand`);
+    return patch;
+  }
+
+  const test = findProperty(config, 'test');
+  if (!test) {
+    edits.push(...insertProperties(sourceFile, config, [['test', defaults]], quote));
+    patch.changes.push(`Added a test block to ${name}`);
+    patch.environment = defaults.environment;
+    patch.provider = defaults.coverage.provider;
+    patch.addedSetupFiles = true;
+  } else if (!ts.isPropertyAssignment(test) || !ts.isObjectLiteralExpression(test.initializer)) {
+    patch.warnings.push(`test in ${name} is not an object literal; check its environment, setupFiles and coverage by hand`);
+  } else {
+    const testObject = test.initializer;
+    const missing: PropertyEntry[] = [];
+    for (const key of ['globals', 'environment', 'setupFiles'] as const) {
+      if (!findProperty(testObject, key)) missing.push([key, defaults[key]]);
+    }
+    const environment = findProperty(testObject, 'environment');
+    patch.environment = environment ? stringValue(environment) : defaults.environment;
+    patch.addedSetupFiles = !findProperty(testObject, 'setupFiles');
+
+    const coverage = findProperty(testObject, 'coverage');
+    if (!coverage) {
+      missing.push(['coverage', defaults.coverage]);
+      patch.provider = defaults.coverage.provider;
+    } else if (!ts.isPropertyAssignment(coverage) || !ts.isObjectLiteralExpression(coverage.initializer)) {
+      patch.warnings.push(`test.coverage in ${name} is not an object literal; check its provider and thresholds by hand`);
+    } else {
+      patch.provider = mergeCoverage(sourceFile, coverage.initializer, defaults.coverage, quote, edits, patch, options.replaceProvider);
+    }
+
+    if (missing.length) {
+      edits.push(...insertProperties(sourceFile, testObject, missing, quote));
+      patch.changes.push(`Added ${missing.map(([key]) => `test.${key}`).join(', ')} to ${name}`);
+    }
+  }
+
+  const isTypeScript = scriptKind(fileName) === ts.ScriptKind.TS;
+  if (edits.length && options.typesReference && isTypeScript && !/reference\s+types=["']vitest/.test(source) && !source.includes('vitest/config')) {
+    edits.push({ start: 0, end: 0, text: `/// <reference types="${options.typesReference}" />\n` });
+    patch.changes.push(`Referenced the ${options.typesReference} types in ${name} so its config accepts test`);
+  }
+
+  patch.content = applyEdits(source, edits);
+  return patch;
+}
+
+/**
+ * Adds the missing coverage keys, migrates legacy ones and returns the provider in effect.
+ */
+function mergeCoverage(
+  sourceFile: ts.SourceFile,
+  coverage: ts.ObjectLiteralExpression,
+  defaults: TestConfigDefaults['coverage'],
+  quote: string,
+  edits: Edit[],
+  patch: TestConfigPatch,
+  replaceProvider = false
+): string | undefined {
+  const name = path.basename(sourceFile.fileName);
+  const missing: PropertyEntry[] = [];
+
+  let provider: string | undefined = defaults.provider;
+  const providerProperty = findProperty(coverage, 'provider');
+  if (!providerProperty) {
+    missing.push(['provider', defaults.provider]);
+  } else {
+    const current = stringValue(providerProperty);
+    const replace = current === 'c8' || (replaceProvider && (current === 'v8' || current === 'istanbul') && current !== defaults.provider);
+    if (replace && ts.isPropertyAssignment(providerProperty)) {
+      const initializer = providerProperty.initializer;
+      edits.push({ start: initializer.getStart(sourceFile), end: initializer.getEnd(), text: renderValue(defaults.provider, '', quote) });
+      patch.changes.push(`Replaced the ${current} coverage provider with ${defaults.provider} in ${name}`);
+    } else {
+      provider = current;
+    }
+  }
+
+  if (!findProperty(coverage, 'reporter')) missing.push(['reporter', defaults.reporter]);
+
+  const legacy = coverage.properties
+    .filter(ts.isPropertyAssignment)
+    .filter(property => LEGACY_THRESHOLD_KEYS.includes(propertyName(property) ?? ''));
+  if (findProperty(coverage, 'thresholds')) {
+    if (legacy.length) {
+      patch.warnings.push(`coverage in ${name} sets ${legacy.map(propertyName).join(', ')} next to thresholds; Vitest only reads thresholds`);
+    }
+  } else if (legacy.length) {
+    const thresholds = Object.fromEntries(legacy.map(property => [propertyName(property)!, new Raw(property.initializer.getText(sourceFile))]));
+    // Comments above the legacy keys, such as why they are set, move to the thresholds
+    const removal = removeProperties(sourceFile, coverage, legacy);
+    edits.push(...removal.edits);
+    missing.push(['thresholds', thresholds, removal.comments]);
+    patch.changes.push(`Moved coverage.${legacy.map(propertyName).join(', coverage.')} into coverage.thresholds in ${name}`);
+  } else {
+    missing.push(['thresholds', defaults.thresholds]);
+  }
+
+  if (missing.length) {
+    edits.push(...insertProperties(sourceFile, coverage, missing, quote));
+    const added = missing.filter(([key]) => key !== 'thresholds' || !legacy.length);
+    if (added.length) patch.changes.push(`Added ${added.map(([key]) => `test.coverage.${key}`).join(', ')} to ${name}`);
+  }
+  return provider;
+}
+
+function scriptKind(fileName: string): ts.ScriptKind {
+  return /\.[cm]?ts$/.test(fileName) ? ts.ScriptKind.TS : ts.ScriptKind.JS;
+}
+
+/**
+ * The object literal a config file exports: `export default defineConfig({…})`, `export default {…}`,
+ * `defineConfig(() => ({…}))`, the last object given to `mergeConfig`, a local variable or `module.exports`.
+ */
+function findConfigObject(sourceFile: ts.SourceFile): ts.ObjectLiteralExpression | undefined {
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      return unwrapConfig(sourceFile, statement.expression);
+    }
+    if (
+      ts.isExpressionStatement(statement) &&
+      ts.isBinaryExpression(statement.expression) &&
+      statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+      statement.expression.left.getText(sourceFile) === 'module.exports'
+    ) {
+      return unwrapConfig(sourceFile, statement.expression.right);
+    }
+  }
+  return undefined;
+}
+
+function unwrapConfig(sourceFile: ts.SourceFile, node: ts.Node, depth = 0): ts.ObjectLiteralExpression | undefined {
+  if (depth > 10) return undefined;
+  if (ts.isObjectLiteralExpression(node)) return node;
+  if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node)) {
+    return unwrapConfig(sourceFile, node.expression, depth + 1);
+  }
+  if (ts.isCallExpression(node)) {
+    for (const argument of [...node.arguments].reverse()) {
+      const found = unwrapConfig(sourceFile, argument, depth + 1);
+      if (found) return found;
+    }
+    return undefined;
+  }
+  if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+    if (!ts.isBlock(node.body)) return unwrapConfig(sourceFile, node.body, depth + 1);
+    const returned = node.body.statements.filter(ts.isReturnStatement).pop()?.expression;
+    return returned && unwrapConfig(sourceFile, returned, depth + 1);
+  }
+  if (ts.isIdentifier(node)) {
+    for (const statement of sourceFile.statements) {
+      if (!ts.isVariableStatement(statement)) continue;
+      const declaration = statement.declarationList.declarations.find(d => ts.isIdentifier(d.name) && d.name.text === node.text);
+      if (declaration?.initializer) return unwrapConfig(sourceFile, declaration.initializer, depth + 1);
+    }
+  }
+  return undefined;
+}
+
+function propertyName(property: ts.ObjectLiteralElementLike): string | undefined {
+  const name = property.name;
+  return name && (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) ? name.text : undefined;
+}
+
+function findProperty(object: ts.ObjectLiteralExpression, name: string): ts.ObjectLiteralElementLike | undefined {
+  return object.properties.find(property => propertyName(property) === name);
+}
+
+function stringValue(property: ts.ObjectLiteralElementLike | undefined): string | undefined {
+  return property && ts.isPropertyAssignment(property) && ts.isStringLiteralLike(property.initializer)
+    ? property.initializer.text
+    : undefined;
+}
+
+/**
+ * Inserts properties at the top of an object literal, indented like its existing properties. An object
+ * written on one line is broken up like a multi-line one, with its closing brace on a line of its own.
+ */
+function insertProperties(sourceFile: ts.SourceFile, object: ts.ObjectLiteralExpression, entries: PropertyEntry[], quote: string): Edit[] {
+  const objectIndent = lineIndent(sourceFile, object.getStart(sourceFile));
+  const first = object.properties[0];
+  const start = object.getStart(sourceFile) + 1;
+  const firstOnOwnLine = first && lineOf(sourceFile, first.getStart(sourceFile)) !== lineOf(sourceFile, object.getStart(sourceFile));
+  const depth = sameLineDepth(sourceFile, object);
+  const indent = firstOnOwnLine ? lineIndent(sourceFile, first.getStart(sourceFile)) : objectIndent + '  '.repeat(depth);
+  const rendered = entries.map(([key, value, comments = []]) =>
+    comments.map(comment => `${comment}\n${indent}`).join('') + `${renderKey(key, quote)}: ${renderValue(value, indent, quote)}`
+  );
+
+  if (!first) {
+    return [{ start: object.getStart(sourceFile), end: object.getEnd(), text: `{\n${rendered.map(line => indent + line).join(',\n')}\n${objectIndent}}` }];
+  }
+  // A property on the line of the brace moves to its own line, after the spaces already before it
+  const gap = sourceFile.text.slice(start, first.getStart(sourceFile));
+  const lead = firstOnOwnLine ? '' : `\n${/^[ \t]*$/.test(gap) ? indent.slice(gap.length) : indent}`;
+  const text = rendered.map(line => `\n${indent}${line},`).join('') + lead;
+  const edits: Edit[] = [{ start, end: start, text }];
+
+  // So does the closing brace, indented like the line the object opens on
+  const closeBrace = object.getEnd() - 1;
+  const last = object.properties[object.properties.length - 1];
+  const lastEnd = last.getEnd() + (object.properties.hasTrailingComma ? 1 : 0);
+  if (!firstOnOwnLine && lineOf(sourceFile, lastEnd) === lineOf(sourceFile, closeBrace)) {
+    const before = sourceFile.text.slice(lastEnd, closeBrace);
+    const closeStart = /^[ \t]*$/.test(before) ? lastEnd : closeBrace;
+    edits.push({ start: closeStart, end: closeBrace, text: `\n${objectIndent}${'  '.repeat(depth - 1)}` });
+  }
+  return edits;
+}
+
+/**
+ * Removes properties with their leading whitespace, comments and trailing commas, and returns the
+ * comments above them. A comment at the end of the previous property's line stays where it is, and
+ * so does a missing trailing comma after the last property.
+ */
+function removeProperties(
+  sourceFile: ts.SourceFile,
+  object: ts.ObjectLiteralExpression,
+  properties: ts.ObjectLiteralElementLike[]
+): { edits: Edit[]; comments: string[] } {
+  const text = sourceFile.getFullText();
+  const edits: Edit[] = [];
+  const comments: string[] = [];
+  for (const property of properties) {
+    const fullStart = property.getFullStart();
+    const start = ts.getTrailingCommentRanges(text, fullStart)?.pop()?.end ?? fullStart;
+    comments.push(...(ts.getLeadingCommentRanges(text, fullStart) ?? []).map(range => text.slice(range.pos, range.end)));
+    const comma = /^\s*,/.exec(text.slice(property.getEnd()));
+    edits.push({ start, end: property.getEnd() + (comma ? comma[0].length : 0), text: '' });
+  }
+
+  const kept = object.properties.filter(property => !properties.includes(property));
+  const last = kept[kept.length - 1];
+  if (last && last !== object.properties[object.properties.length - 1] && !object.properties.hasTrailingComma) {
+    const comma = /^\s*,/.exec(text.slice(last.getEnd()))!;
+    edits.push({ start: last.getEnd(), end: last.getEnd() + comma[0].length, text: '' });
+  }
+  return { edits, comments };
+}
+
+/**
+ * 1 plus the number of enclosing object literals that open on the same line, e.g. 3 for `coverage`
+ * in `{ test: { coverage: {} } }`.
+ */
+function sameLineDepth(sourceFile: ts.SourceFile, object: ts.ObjectLiteralExpression): number {
+  const line = lineOf(sourceFile, object.getStart(sourceFile));
+  let depth = 1;
+  for (let node = object.parent; node; node = node.parent) {
+    if (ts.isObjectLiteralExpression(node) && lineOf(sourceFile, node.getStart(sourceFile)) === line) depth++;
+  }
+  return depth;
+}
+
+function lineOf(sourceFile: ts.SourceFile, position: number): number {
+  return sourceFile.getLineAndCharacterOfPosition(position).line;
+}
+
+function lineIndent(sourceFile: ts.SourceFile, position: number): string {
+  const lineStart = sourceFile.getLineStarts()[lineOf(sourceFile, position)];
+  return /^[ \t]*/.exec(sourceFile.text.slice(lineStart))![0];
+}
+
+function renderKey(key: string, quote: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : renderValue(key, '', quote);
+}
+
+function renderValue(value: unknown, indent: string, quote: string): string {
+  if (value instanceof Raw) return value.text;
+  if (Array.isArray(value)) return `[${value.map(item => renderValue(item, indent, quote)).join(', ')}]`;
+  if (value && typeof value === 'object') {
+    const inner = indent + '  ';
+    const entries = Object.entries(value).map(([key, item]) => `${inner}${renderKey(key, quote)}: ${renderValue(item, inner, quote)}`);
+    return entries.length ? `{\n${entries.join(',\n')}\n${indent}}` : '{}';
+  }
+  if (typeof value === 'string') {
+    return quote + value.replace(/\\/g, '\\\\').replace(new RegExp(quote, 'g'), `\\${quote}`) + quote;
+  }
+  return String(value);
+}
+
+/**
+ * Applies edits back to front. Of edits starting at the same position, removals go first so an
+ * insertion there is not removed with them.
+ */
+function applyEdits(source: string, edits: Edit[]): string {
+  return [...edits]
+    .sort((a, b) => b.start - a.start || b.end - a.end)
+    .reduce((text, edit) => text.slice(0, edit.start) + edit.text + text.slice(edit.end), source);
+}
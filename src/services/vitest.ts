@@ -0,0 +1,215 @@
+import { ChildProcess, spawn } from 'child_process';
+import fs from 'fs-extra';
+import path from 'path';
+import readline from 'readline';
+import { fileURLToPath } from 'url';
+import { CoverageRun, recordCoverageRun } from '../coverage/history.js';
+import { CoverageMap, readCoverageMap } from '../coverage/istanbul.js';
+import { EVENT_MARKER, StreamEvent } from '../reporters/streamReporter.js';
+import { describeHead } from './git.js';
+import { vitestCommand } from './projects.js';
+
+/** The parts of Vitest's JSON reporter output used here */
+export interface JsonReport {
+  testResults: Array<{
+    /** Absolute path of the test file */
+    name: string;
+    status: 'passed' | 'failed';
+    /** Error of the file itself, e.g. a failed import */
+    message: string;
+    assertionResults: Array<{
+      ancestorTitles: string[];
+      title: string;
+      status: string;
+      duration?: number;
+      failureMessages: string[];
+      location?: { line: number; column: number };
+    }>;
+  }>;
+}
+
+export const ANSI_ESCAPE = /\u001b\[[0-9;]*m/g;
+
+/**
+ * Runs `npx vitest <args>` in a project without a shell, through the project's package manager
+ * and with its registered Vitest config. Aborting `signal` kills the run.
+ * Rejects with `{ error, stderr, exitCode }` like the other tool implementations.
+ */
+export function runVitest(
+  cwd: string,
+  args: string[],
+  options: { signal?: AbortSignal } = {}
+): Promise<{ stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const { command, prefix, suffix } = vitestCommand(cwd);
+    const child = spawn(command, [...prefix, ...args, ...suffix], { cwd, detached: true, stdio: ['ignore', 'pipe', 'pipe'] });
+    killOnAbort(child, options.signal);
+
+    let stdout = '';
+    let stderr = '';
+    child.stdout.setEncoding('utf-8').on('data', chunk => { stdout += chunk; });
+    child.stderr.setEncoding('utf-8').on('data', chunk => { stderr += chunk; });
+
+    child.on('error', error => reject({ error: error.message, stderr }));
+    child.on('close', exitCode => {
+      if (options.signal?.aborted) return reject({ error: 'Vitest run was cancelled', stderr });
+      if (exitCode !== 0) {
+        return reject({ error: `${[command, ...prefix, ...args].join(' ')} exited with code ${exitCode}`, stderr, exitCode });
+      }
+      resolve({ stdout, stderr });
+    });
+  });
+}
+
+/**
+ * npx starts Vitest as a grandchild, so killing npx alone leaves the run going. Children started
+ * with `detached: true` lead their own process group, and the whole group is killed on abort.
+ */
+export function killOnAbort(child: ChildProcess, signal?: AbortSignal) {
+  if (!signal) return;
+  const kill = () => {
+    try {
+      process.kill(-child.pid!, 'SIGTERM');
+    } catch {
+      // No process groups (Windows) or already gone
+      child.kill('SIGTERM');
+    }
+  };
+  if (signal.aborted) return kill();
+  signal.addEventListener('abort', kill, { once: true });
+  child.on('exit', () => signal.removeEventListener('abort', kill));
+}
+
+// Compiled builds ship streamReporter.js, tsx runs the .ts source
+const STREAM_REPORTER = fileURLToPath(
+  new URL(`../reporters/streamReporter${path.extname(fileURLToPath(import.meta.url))}`, import.meta.url)
+);
+
+/**
+ * Runs `npx vitest <args>` with the streaming reporter and calls `onEvent` for every event as it
+ * happens. Resolves with the exit code once Vitest exits; failing tests are not an error.
+ * Rejects with `{ error, stderr }` when Vitest cannot be started.
+ */
+export function streamVitest(
+  cwd: string,
+  args: string[],
+  options: { signal?: AbortSignal; onEvent: (event: StreamEvent) => void }
+): Promise<{ exitCode: number | null; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const { command, prefix, suffix } = vitestCommand(cwd);
+    const child = spawn(command, [...prefix, ...args, `--reporter=${STREAM_REPORTER}`, ...suffix], {
+      cwd,
+      detached: true,
+      stdio: ['ignore', 'pipe', 'pipe']
+    });
+    killOnAbort(child, options.signal);
+
+    let stderr = '';
+    child.stderr.on('data', chunk => {
+      // Only the tail is kept for error messages
+      stderr = (stderr + chunk).slice(-64 * 1024);
+    });
+
+    readline.createInterface({ input: child.stdout }).on('line', line => {
+      const start = line.indexOf(EVENT_MARKER);
+      if (start === -1) return;
+      try {
+        options.onEvent(JSON.parse(line.slice(start + EVENT_MARKER.length)));
+      } catch (e) {
+        console.error('Unreadable Vitest reporter event:', e);
+      }
+    });
+
+    child.on('error', error => reject({ error: error.message, stderr }));
+    child.on('close', exitCode => {
+      if (options.signal?.aborted) return reject({ error: 'Vitest run was cancelled', stderr });
+      resolve({ exitCode, stderr });
+    });
+  });
+}
+
+/**
+ * Enables coverage. Vitest 1 skips the coverage report when a test fails unless it is told otherwise.
+ */
+export const COVERAGE_ARGS = ['--coverage', '--coverage.reportOnFailure'];
+
+/**
+ * Runs Vitest with `args` that enable coverage. Failing tests make Vitest exit with code 1 but the
+ * coverage report is still written, so that only rejects when no new report came out of the run.
+ */
+export async function runVitestCoverage(
+  cwd: string,
+  args: string[],
+  options: { signal?: AbortSignal } = {}
+): Promise<{ testsFailed: boolean }> {
+  const startedAt = Date.now();
+  try {
+    await runVitest(cwd, args, options);
+    return { testsFailed: false };
+  } catch (error: any) {
+    if (error?.exitCode !== 1 || !(await wasWrittenSince(path.join(cwd, 'coverage', 'coverage-final.json'), startedAt))) {
+      throw error;
+    }
+    return { testsFailed: true };
+  }
+}
+
+/**
+ * Whether `file` exists and was modified at or after `since` (ms), i.e. it is not left over from an earlier run.
+ */
+export async function wasWrittenSince(file: string, since: number): Promise<boolean> {
+  const stat = await fs.stat(file).catch(() => null);
+  return !!stat && stat.mtimeMs >= since;
+}
+
+/**
+ * Runs the whole suite with coverage and returns the resulting coverage-final.json, also when some tests fail.
+ */
+export async function runCoverage(cwd: string, options: { signal?: AbortSignal } = {}): Promise<CoverageMap> {
+  await runVitestCoverage(cwd, ['run', ...COVERAGE_ARGS, '--reporter=json'], options);
+  return readCoverageMap(path.join(cwd, 'coverage', 'coverage-final.json'));
+}
+
+const latestCoverageCache = new Map<string, { mtimeMs: number; coverage: CoverageMap }>();
+
+/**
+ * coverage-final.json left by the last coverage run of a project, or null if there is none.
+ * The parsed report is kept in memory until the file changes.
+ */
+export async function readLatestCoverage(cwd: string): Promise<{ coverage: CoverageMap; path: string; updatedAt: Date } | null> {
+  const coveragePath = path.join(cwd, 'coverage', 'coverage-final.json');
+  const stat = await fs.stat(coveragePath).catch(() => null);
+  if (!stat) return null;
+
+  let cached = latestCoverageCache.get(coveragePath);
+  if (!cached || cached.mtimeMs !== stat.mtimeMs) {
+    cached = { mtimeMs: stat.mtimeMs, coverage: await readCoverageMap(coveragePath) };
+    latestCoverageCache.set(coveragePath, cached);
+  }
+  return { coverage: cached.coverage, path: coveragePath, updatedAt: stat.mtime };
+}
+
+/**
+ * Adds a finished coverage run to the project's history with the checkout's commit and branch.
+ * History is best effort: a failure is logged and never fails the run itself.
+ */
+export async function recordCoverageHistory(
+  cwd: string,
+  coverage: CoverageMap,
+  source: string,
+  options: { scope?: Record<string, unknown>; commit?: { sha: string; branch: string | null; dirty: boolean } } = {}
+): Promise<CoverageRun | null> {
+  try {
+    const head = options.commit || await describeHead(cwd);
+    return await recordCoverageRun(cwd, coverage, {
+      sha: head?.sha ?? null,
+      branch: head?.branch ?? null,
+      dirty: head?.dirty ?? false,
+      source,
+      scope: options.scope
+    });
+  } catch (error) {
+    console.error('Failed to record coverage history:', error);
+    return null;
+  }
+}
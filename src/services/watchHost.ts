@@ -0,0 +1,187 @@
+import { createRequire } from 'module';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { minimatch } from 'minimatch';
+import type { File, Task } from 'vitest';
+import type { Vitest } from 'vitest/node';
+import { collectTests, fullName, TestEvent } from '../reporters/streamReporter.js';
+
+/**
+ * Child process behind a watch session. It keeps one Vitest instance of the project in watch mode,
+ * created through the project's own Vitest Node API, and runs test files when the server asks over IPC.
+ * Running Vitest in its own process keeps its output, exit code and workers away from the server.
+ */
+
+export interface WatchHostConfig {
+  root: string;
+  /** Vitest config file; Vitest looks it up itself when unset */
+  vitestConfig?: string;
+  /** Coverage is reported to this directory, or not collected when unset */
+  coverageDirectory?: string;
+}
+
+export type WatchHostRequest =
+  | { type: 'run'; id: number; files?: string[]; testNamePattern?: string }
+  | { type: 'cancel' }
+  | { type: 'stop' };
+
+export interface WatchRunResult {
+  /** `request` for runs asked for by the server, `watch` for reruns on file changes */
+  trigger: 'request' | 'watch';
+  /** Test files that ran, relative to the project root */
+  files: string[];
+  passed: number;
+  failed: number;
+  skipped: number;
+  duration: number;
+  failures: Array<Omit<TestEvent, 'type'>>;
+  /** Test files that failed before running any test, e.g. on a failed import */
+  fileErrors: Array<{ file: string; message: string }>;
+  /** Errors outside of tests, e.g. unhandled rejections */
+  errors: string[];
+}
+
+export type WatchHostMessage =
+  | { type: 'ready'; testFiles: string[] }
+  | { type: 'run-finished'; id?: number; result: WatchRunResult }
+  | { type: 'error'; id?: number; message: string };
+
+function send(message: WatchHostMessage) {
+  process.send?.(message);
+}
+
+async function main() {
+  const config: WatchHostConfig = JSON.parse(process.argv[2]);
+  const { root } = config;
+
+  // The project's Vitest, not the server's: versions and plugins have to match the project's config
+  const requireFromProject = createRequire(path.join(root, 'package.json'));
+  const { createVitest } = await import(pathToFileURL(requireFromProject.resolve('vitest/node')).href);
+
+  // Runs asked for by the server are answered directly; the reporter only forwards reruns on file changes
+  let requestedRun = false;
+  let watchRunStartedAt = Date.now();
+  const reporter = {
+    onWatcherRerun() {
+      watchRunStartedAt = Date.now();
+    },
+    onFinished(files: File[] = [], errors: unknown[] = []) {
+      if (requestedRun) return;
+      send({ type: 'run-finished', result: collectResults(root, 'watch', files, errors, Date.now() - watchRunStartedAt) });
+    }
+  };
+
+  const vitest: Vitest = await createVitest('test', {
+    root,
+    config: config.vitestConfig,
+    watch: true,
+    reporters: [reporter],
+    coverage: config.coverageDirectory
+      ? { enabled: true, reporter: ['json'], reportsDirectory: config.coverageDirectory, all: false, reportOnFailure: true }
+      : { enabled: false }
+  });
+  await vitest.init();
+
+  const listTestFiles = async () => (await vitest.globTestFiles()).map(([, file]) => file);
+  send({ type: 'ready', testFiles: (await listTestFiles()).map(file => path.relative(root, file)) });
+
+  let queue = Promise.resolve();
+  process.on('message', (request: WatchHostRequest) => {
+    if (request.type === 'cancel') {
+      vitest.cancelCurrentRun('keyboard-input');
+    } else if (request.type === 'stop') {
+      vitest.close().finally(() => process.exit(0));
+    } else if (request.type === 'run') {
+      queue = queue.then(async () => {
+        try {
+          const all = await listTestFiles();
+          const files = request.files?.length
+            ? all.filter(file => request.files!.some(pattern =>
+                path.resolve(root, pattern) === file || minimatch(path.relative(root, file), pattern, { dot: true })))
+            : all;
+          if (files.length === 0) {
+            return send({ type: 'error', id: request.id, message: `No test files match ${request.files!.join(', ')}` });
+          }
+
+          vitest.configOverride.testNamePattern = request.testNamePattern ? new RegExp(request.testNamePattern) : undefined;
+          const startedAt = Date.now();
+          requestedRun = true;
+          try {
+            // A trigger marks the run as partial, so coverage only covers the files these tests load
+            await vitest.rerunFiles(files, request.files?.length ? 'run requested' : undefined);
+          } finally {
+            requestedRun = false;
+          }
+
+          const result = collectResults(root, 'request', vitest.state.getFiles(files), vitest.state.getUnhandledErrors(), Date.now() - startedAt);
+          send({ type: 'run-finished', id: request.id, result });
+        } catch (error) {
+          send({ type: 'error', id: request.id, message: (error as Error)?.message || String(error) });
+        }
+      });
+    }
+  });
+
+  // The server went away without stopping the session
+  process.on('disconnect', () => {
+    vitest.close().finally(() => process.exit(0));
+  });
+}
+
+function collectResults(root: string, trigger: WatchRunResult['trigger'], files: File[], errors: unknown[], duration: number): WatchRunResult {
+  const result: WatchRunResult = {
+    trigger,
+    files: files.map(file => path.relative(root, file.filepath)),
+    passed: 0,
+    failed: 0,
+    skipped: 0,
+    duration,
+    failures: [],
+    fileErrors: [],
+    errors: errors.map(error => (error as Error)?.message || String(error))
+  };
+
+  for (const file of files) {
+    const fileError = file.result?.errors?.[0];
+    if (fileError) {
+      result.fileErrors.push({ file: path.relative(root, file.filepath), message: fileError.message });
+    }
+
+    for (const test of collectTests(file)) {
+      const state = test.result?.state ?? test.mode;
+      if (state === 'pass') {
+        result.passed++;
+      } else if (state === 'skip' || state === 'todo') {
+        result.skipped++;
+      } else if (state === 'fail') {
+        result.failed++;
+        result.failures.push(toFailure(root, file, test));
+      }
+    }
+  }
+  return result;
+}
+
+function toFailure(root: string, file: File, test: Task): Omit<TestEvent, 'type'> {
+  const error = test.result?.errors?.[0];
+  return {
+    file: path.relative(root, file.filepath),
+    name: test.name,
+    fullName: fullName(test),
+    duration: test.result?.duration,
+    ...(error && {
+      error: {
+        message: error.message,
+        stack: error.stack || error.stackStr,
+        expected: error.expected,
+        actual: error.actual,
+        diff: error.diff
+      }
+    })
+  };
+}
+
+main().catch(error => {
+  const message: WatchHostMessage = { type: 'error', message: (error as Error)?.message || String(error) };
+  process.send ? process.send(message, () => process.exit(1)) : process.exit(1);
+});
@@ -0,0 +1,282 @@
+import { ChildProcess, fork } from 'child_process';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { readCoverageMap } from '../coverage/istanbul.js';
+import { CoverageMetrics, summarizeCoverage } from '../coverage/summary.js';
+import type { WatchHostConfig, WatchHostMessage, WatchHostRequest, WatchRunResult } from './watchHost.js';
+import { findProjectByRoot } from './projects.js';
+import { ensureStateDirectory, statePath } from './stateDirectory.js';
+import { wasWrittenSince } from './vitest.js';
+
+export type WatchSessionStatus = 'starting' | 'ready' | 'running' | 'stopped';
+
+export interface WatchSession {
+  projectRoot: string;
+  status: WatchSessionStatus;
+  coverage: boolean;
+  /** Seconds without a start or run request before the session is stopped */
+  idleTimeout: number;
+  startedAt: string;
+  lastActivityAt: string;
+  expiresAt?: string;
+  /** Test files found when the session started, relative to the project root */
+  testFiles: string[];
+  /** Latest run, requested or triggered by a file change */
+  lastRun?: WatchRunResult & { finishedAt: string };
+  stopReason?: string;
+}
+
+export interface WatchRunCoverage {
+  coveragePath: string;
+  total: CoverageMetrics;
+  /** Only the files loaded by the tests of the run */
+  files: Record<string, CoverageMetrics>;
+}
+
+interface SessionState {
+  session: WatchSession;
+  child: ChildProcess;
+  ready: Promise<void>;
+  idleTimer?: NodeJS.Timeout;
+  nextRunId: number;
+  pendingRuns: Map<number, { resolve: (result: WatchRunResult) => void; reject: (error: unknown) => void }>;
+  stderr: string;
+}
+
+export const DEFAULT_IDLE_TIMEOUT = 15 * 60;
+const START_TIMEOUT_MS = 60_000;
+const STOP_TIMEOUT_MS = 10_000;
+const STDERR_KEPT = 8 * 1024;
+
+// Compiled builds ship watchHost.js, tsx runs the .ts source
+const WATCH_HOST = fileURLToPath(new URL(`./watchHost${path.extname(fileURLToPath(import.meta.url))}`, import.meta.url));
+
+const sessions = new Map<string, SessionState>();
+
+// Sessions run in their own process groups, which do not go away with the server
+process.on('exit', () => {
+  for (const state of sessions.values()) killGroup(state.child, 'SIGKILL');
+});
+
+/**
+ * Coverage of watch sessions goes to its own directory so partial reruns never overwrite
+ * the project's coverage/coverage-final.json.
+ */
+export function watchCoverageDirectory(projectRoot: string): string {
+  return statePath(projectRoot, 'watch', 'coverage');
+}
+
+/**
+ * Starts Vitest in watch mode for a project and resolves once its test files are known.
+ * A running session of the project is returned as is, with the new idle timeout.
+ */
+export async function startWatchSession(
+  projectRoot: string,
+  options: { coverage?: boolean; idleTimeout?: number } = {}
+): Promise<WatchSession> {
+  const root = path.resolve(projectRoot);
+  const existing = sessions.get(root);
+  if (existing) {
+    await existing.ready;
+    existing.session.idleTimeout = options.idleTimeout ?? existing.session.idleTimeout;
+    touch(existing);
+    return existing.session;
+  }
+
+  const project = findProjectByRoot(root);
+  const config: WatchHostConfig = {
+    root,
+    vitestConfig: project?.vitestConfig && path.resolve(root, project.vitestConfig),
+    coverageDirectory: options.coverage === false ? undefined : await ensureStateDirectory(root, 'watch', 'coverage')
+  };
+  const child = fork(WATCH_HOST, [JSON.stringify(config)], {
+    cwd: root,
+    detached: true,
+    stdio: ['ignore', 'ignore', 'pipe', 'ipc']
+  });
+
+  const now = new Date().toISOString();
+  const state: SessionState = {
+    session: {
+      projectRoot: root,
+      status: 'starting',
+      coverage: !!config.coverageDirectory,
+      idleTimeout: options.idleTimeout ?? DEFAULT_IDLE_TIMEOUT,
+      startedAt: now,
+      lastActivityAt: now,
+      testFiles: []
+    },
+    child,
+    ready: Promise.resolve(),
+    nextRunId: 1,
+    pendingRuns: new Map(),
+    stderr: ''
+  };
+  sessions.set(root, state);
+
+  child.stderr!.setEncoding('utf-8').on('data', chunk => {
+    state.stderr = (state.stderr + chunk).slice(-STDERR_KEPT);
+  });
+
+  state.ready = new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      stopWatchSession(root, 'start timed out');
+      reject({ error: `Vitest did not start within ${START_TIMEOUT_MS / 1000}s`, stderr: state.stderr });
+    }, START_TIMEOUT_MS);
+
+    child.on('message', (message: WatchHostMessage) => {
+      if (message.type === 'ready') {
+        clearTimeout(timer);
+        state.session.status = 'ready';
+        state.session.testFiles = message.testFiles;
+        resolve();
+      } else if (message.type === 'run-finished') {
+        state.session.lastRun = { ...message.result, finishedAt: new Date().toISOString() };
+        if (message.id !== undefined) settleRun(state, message.id, message.result);
+      } else if (message.type === 'error') {
+        if (message.id !== undefined) return settleRun(state, message.id, undefined, { error: message.message });
+        clearTimeout(timer);
+        reject({ error: `Could not start Vitest: ${message.message}`, stderr: state.stderr });
+      }
+    });
+
+    child.on('exit', (code, signal) => {
+      clearTimeout(timer);
+      if (state.session.status !== 'stopped') {
+        console.error(`Watch session of ${root} exited unexpectedly (${signal || `code ${code}`})`);
+        markStopped(state, `Vitest exited (${signal || `code ${code}`})`);
+      }
+      reject({ error: 'Vitest exited before it was ready', stderr: state.stderr });
+    });
+  });
+
+  try {
+    await state.ready;
+  } catch (error) {
+    markStopped(state, 'failed to start');
+    killGroup(child, 'SIGKILL');
+    throw error;
+  }
+  touch(state);
+  return state.session;
+}
+
+/**
+ * Reruns test files (globs or paths relative to the project root, all of them when omitted) in the
+ * project's watch session and returns the results with the coverage of the files the tests loaded.
+ * Resolves to null when the project has no session.
+ */
+export async function runInWatchSession(
+  projectRoot: string,
+  options: { files?: string[]; testNamePattern?: string; signal?: AbortSignal } = {}
+): Promise<(WatchRunResult & { coverage?: WatchRunCoverage }) | null> {
+  const root = path.resolve(projectRoot);
+  const state = sessions.get(root);
+  if (!state) return null;
+  await state.ready;
+
+  const id = state.nextRunId++;
+  const startedAt = Date.now();
+  touch(state);
+  state.session.status = 'running';
+
+  const onAbort = () => send(state, { type: 'cancel' });
+  options.signal?.addEventListener('abort', onAbort, { once: true });
+  try {
+    const result = await new Promise<WatchRunResult>((resolve, reject) => {
+      state.pendingRuns.set(id, { resolve, reject });
+      send(state, { type: 'run', id, files: options.files, testNamePattern: options.testNamePattern });
+    });
+
+    const coveragePath = path.join(watchCoverageDirectory(root), 'coverage-final.json');
+    if (!state.session.coverage || !(await wasWrittenSince(coveragePath, startedAt))) {
+      return result;
+    }
+    const { total, files } = summarizeCoverage(await readCoverageMap(coveragePath), root);
+    return { ...result, coverage: { coveragePath, total, files } };
+  } finally {
+    options.signal?.removeEventListener('abort', onAbort);
+    if (state.session.status === 'running' && state.pendingRuns.size === 0) state.session.status = 'ready';
+    touch(state);
+  }
+}
+
+/**
+ * Closes the project's Vitest instance, killing it if it does not exit in time.
+ * Resolves to null when the project has no session.
+ */
+export async function stopWatchSession(projectRoot: string, reason = 'stopped'): Promise<WatchSession | null> {
+  const root = path.resolve(projectRoot);
+  const state = sessions.get(root);
+  if (!state) return null;
+
+  markStopped(state, reason);
+  if (state.child.exitCode === null && state.child.signalCode === null) {
+    const exited = new Promise(resolve => state.child.once('exit', resolve));
+    send(state, { type: 'stop' });
+    const timer = setTimeout(() => killGroup(state.child, 'SIGKILL'), STOP_TIMEOUT_MS);
+    await exited;
+    clearTimeout(timer);
+  }
+  // Pool workers left behind by a Vitest that did not close cleanly
+  killGroup(state.child, 'SIGKILL');
+  return state.session;
+}
+
+export function getWatchSession(projectRoot: string): WatchSession | undefined {
+  return sessions.get(path.resolve(projectRoot))?.session;
+}
+
+export function listWatchSessions(): WatchSession[] {
+  return [...sessions.values()].map(state => state.session);
+}
+
+function send(state: SessionState, request: WatchHostRequest) {
+  if (state.child.connected) state.child.send(request);
+}
+
+function settleRun(state: SessionState, id: number, result?: WatchRunResult, error?: unknown) {
+  const pending = state.pendingRuns.get(id);
+  if (!pending) return;
+  state.pendingRuns.delete(id);
+  error ? pending.reject(error) : pending.resolve(result!);
+}
+
+/**
+ * Records activity and restarts the idle timer.
+ */
+function touch(state: SessionState) {
+  clearTimeout(state.idleTimer);
+  if (state.session.status === 'stopped') return;
+
+  const now = Date.now();
+  state.session.lastActivityAt = new Date(now).toISOString();
+  state.session.expiresAt = new Date(now + state.session.idleTimeout * 1000).toISOString();
+  state.idleTimer = setTimeout(() => {
+    // A long run is activity too
+    if (state.session.status === 'running') return touch(state);
+    stopWatchSession(state.session.projectRoot, 'idle timeout');
+  }, state.session.idleTimeout * 1000);
+  state.idleTimer.unref();
+}
+
+function markStopped(state: SessionState, reason: string) {
+  clearTimeout(state.idleTimer);
+  state.session.status = 'stopped';
+  state.session.stopReason = reason;
+  delete state.session.expiresAt;
+  if (sessions.get(state.session.projectRoot) === state) sessions.delete(state.session.projectRoot);
+  for (const pending of state.pendingRuns.values()) {
+    pending.reject({ error: `Watch session ${reason}`, stderr: state.stderr });
+  }
+  state.pendingRuns.clear();
+}
+
+function killGroup(child: ChildProcess, signal: NodeJS.Signals) {
+  if (!child.pid) return;
+  try {
+    process.kill(-child.pid, signal);
+  } catch {
+    // Already gone
+  }
+}
@@ -1,12 +1,76 @@
+import { randomUUID } from 'crypto';
 import path from 'path';
 import fs from 'fs-extra';
+import { CoverageMap, mergeLineRanges } from '../coverage/istanbul.js';
+import { requireScope } from '../services/auth.js';
 import { localLLMService } from '../services/localLLMService.js';
+import { defineTool, ToolModule } from '../plugins/types.js';
+import { PlannedWrite, previewChanges, toChangeSetView, writeFiles } from '../services/changeSets.js';
+import { resolveProjectFile } from '../services/sandbox.js';
+import { DEFAULT_CONTEXT_TOKENS, gatherPromptDependencies, relativeImportPath } from '../services/promptContext.js';
+import { buildRepairPrompt, buildTestPrompt, CoverageGap, findExistingTest, TestPromptContext } from '../services/testPrompts.js';
+import { coveredLines, measureTestCoverage, typeCheckFile } from '../services/testVerification.js';
+import { positionSchema, projectPathProperty } from './analyzeCoverage.js';
+import { changeSetSchema, dryRunProperty } from './changeSets.js';
+
+type GenerateOptions = {
+  signal?: AbortSignal;
+  progress?: (message: string) => void;
+  /** Run each test and let the LLM repair it until it passes and raises coverage */
+  verify?: boolean;
+  /** Repair requests per file after the first attempt, in verify mode */
+  maxRepairRounds?: number;
+  /** Token budget for the imported types, test utilities and hooks added to each prompt */
+  contextTokens?: number;
+};
+
+export type AITestStatus = 'generated' | 'accepted' | 'failing' | 'no-coverage-gain' | 'skipped' | 'error';
+
+export interface AITestResult {
+  /** Source file, relative to the project root */
+  file: string;
+  /** Test file, relative to the project root */
+  testFile?: string;
+  /** `generated` without verify; `accepted`, `failing` or `no-coverage-gain` with it */
+  status: AITestStatus;
+  /** LLM completions requested for the file */
+  attempts: number;
+  /** Line coverage of the source file by the existing tests, and with the last passing attempt added (verify mode) */
+  coverage?: { before: number; after: number; linesGained: number };
+  /** Project files added to the prompt, their estimated tokens, and files left out to stay within the budget */
+  context?: { files: string[]; tokens: number; omitted: string[] };
+  /** Why the last attempt was rejected, or why the file was skipped */
+  errors?: string[];
+}
+
+const DEFAULT_REPAIR_ROUNDS = 2;
+const REPAIR_SYSTEM_PROMPT = 'You are a helpful assistant that fixes failing Vitest tests. Change only what the errors require.';
 
 /**
- * AI-assisted test writer that supports multiple LLM providers (OpenAI, LM Studio, Ollama, llama.cpp, MLX)
+ * AI-assisted test writer that supports multiple LLM providers (OpenAI, LM Studio, Ollama, llama.cpp, MLX).
+ * Asks the LLM for a test of each file and returns the test files to write; existing tests are skipped.
+ * Uncovered locations from analyze_coverage are grouped per file and marked in the source the LLM sees,
+ * next to the file's existing test, so it targets the paths those tests miss.
+ * In verify mode every test is first run from a scratch file next to its final location, and type
+ * errors, failed assertions or a lack of new coverage are sent back to the LLM for a bounded number of
+ * repair rounds. Only tests that pass and cover lines the existing tests miss are returned.
  */
-export async function generateAITests(projectRoot: string, uncoveredFiles: any[]): Promise<string[]> {
-  const generatedFiles: string[] = [];
+export async function planAITests(
+  projectRoot: string,
+  uncoveredFiles: any[],
+  options: GenerateOptions = {}
+): Promise<{ writes: PlannedWrite[]; results: AITestResult[] }> {
+  const writes: PlannedWrite[] = [];
+  const results: AITestResult[] = [];
+
+  // Reject the whole request before calling the LLM if a file lies outside the project.
+  // analyze_coverage lists every uncovered location, so several entries usually share a file
+  const gapsByFile = new Map<string, CoverageGap[]>();
+  for (const uncovered of uncoveredFiles) {
+    const filePath = resolveProjectFile(projectRoot, uncovered.file);
+    if (!gapsByFile.has(filePath)) gapsByFile.set(filePath, []);
+    gapsByFile.get(filePath)!.push(uncovered);
+  }
 
   // Initialize the local LLM service
   const isInitialized = await localLLMService.initialize();
@@ -18,100 +82,345 @@ export async function generateAITests(projectRoot: string, uncoveredFiles: any[]
   const providerName = localLLMService.getProviderName();
   console.log(`🤖 Using ${providerName} for AI test generation`);
 
-  for (const uncovered of uncoveredFiles.slice(0, 5)) { // Limit to 5 files per request
-    const filePath = path.isAbsolute(uncovered.file) ? uncovered.file : path.join(projectRoot, uncovered.file);
-    
-    if (!fs.existsSync(filePath)) continue;
+  const targets = [...gapsByFile.keys()]
+    .filter(filePath => fs.existsSync(filePath))
+    .slice(0, 5); // Limit to 5 files per request
+
+  // Coverage of the targets by the existing tests, which a new test has to improve on
+  let baseline: CoverageMap = {};
+  if (options.verify && targets.length) {
+    options.progress?.('Measuring the coverage of the existing tests');
+    baseline = (await measureTestCoverage(projectRoot, targets, { signal: options.signal })).coverage;
+  }
+
+  for (const filePath of targets) {
+    // Stop between files when the job is cancelled
+    options.signal?.throwIfAborted();
+    const relativePath = path.relative(projectRoot, filePath);
 
-    const fileContent = await fs.readFile(filePath, 'utf-8');
-    
     // Determine component name and props from the file content
     const ext = path.extname(filePath);
     const componentName = path.basename(filePath, ext);
+    const testFilePath = resolveProjectFile(projectRoot, path.join('__tests__/ai-generated', `${componentName}.test${ext}`));
+    const result: AITestResult = { file: relativePath, testFile: path.relative(projectRoot, testFilePath), status: 'skipped', attempts: 0 };
+    results.push(result);
 
-    // Generate prompt for the LLM
-    const prompt = `You are a senior front-end engineer. Write a **Vitest** test file for the React component located at "${filePath}".  
-The test must:
-1. Import the component with proper relative path.
-2. Render it with typical props (use sensible defaults).
-3. Check for presence of the main UI element using @testing-library/react.
-4. Cover any props that affect rendering (use \`screen.getByRole\`, \`userEvent\`, etc.).
-5. Use Vitest matchers and @testing-library/react.
-6. Include at least one snapshot test (optional).
-7. Handle common edge cases for the component.
-
-Return only the TSX/TS code – no markdown, no explanations.
-Component source:
-\`\`\`
-${fileContent}
-\`\`\``;
+    // Skip files that already have a test before asking the LLM, to avoid overwriting
+    if (writes.some(write => write.file === testFilePath) || await fs.pathExists(testFilePath)) {
+      result.errors = ['The test file already exists'];
+      continue;
+    }
 
     try {
-      const generatedTest = await localLLMService.generateCompletion(prompt);
-      
-      if (!generatedTest) continue;
-
-      // Write the generated test file
-      const componentDir = path.dirname(filePath);
-      const testFileName = `${componentName}.test${ext}`;
-      const testsDir = path.join(projectRoot, '__tests__', 'ai-generated');
-      
-      await fs.ensureDir(testsDir);
-      const testFilePath = path.join(testsDir, testFileName);
+      const dependencies = await gatherPromptDependencies(projectRoot, filePath, testFilePath, options.contextTokens);
+      result.context = {
+        files: dependencies.sections.map(section => section.file),
+        tokens: dependencies.tokens,
+        omitted: dependencies.omitted
+      };
+      const promptContext: TestPromptContext = {
+        filePath: relativePath,
+        source: await fs.readFile(filePath, 'utf-8'),
+        testFile: result.testFile!,
+        importPath: relativeImportPath(testFilePath, filePath),
+        gaps: gapsByFile.get(filePath)!,
+        existingTest: await findExistingTest(projectRoot, filePath),
+        dependencies: dependencies.sections
+      };
+      const prompt = buildTestPrompt(promptContext);
 
-      // Only write if file doesn't exist to avoid overwriting
-      if (!(await fs.pathExists(testFilePath))) {
-        await fs.writeFile(testFilePath, generatedTest);
-        generatedFiles.push(testFilePath);
+      if (!options.verify) {
+        options.progress?.(`Generating a test for ${relativePath}`);
+        result.attempts = 1;
+        const generatedTest = await localLLMService.generateCompletion(prompt, { signal: options.signal });
+        if (!generatedTest) {
+          result.status = 'error';
+          result.errors = [`${providerName} returned no test`];
+          continue;
+        }
+        writes.push({ file: testFilePath, content: extractCode(generatedTest) });
+        result.status = 'generated';
+        continue;
       }
 
+      const accepted = await generateVerifiedTest(projectRoot, filePath, testFilePath, {
+        prompt: promptContext,
+        baseline,
+        result,
+        maxRounds: 1 + (options.maxRepairRounds ?? DEFAULT_REPAIR_ROUNDS),
+        signal: options.signal,
+        progress: options.progress
+      });
+      if (accepted) writes.push({ file: testFilePath, content: accepted });
     } catch (error) {
+      // A cancelled job stops instead of moving on to the next file
+      options.signal?.throwIfAborted();
       console.error(`Failed to generate AI test for ${filePath} using ${providerName}:`, error);
+      result.status = 'error';
+      result.errors = [(error as any)?.message || (error as any)?.error || String(error)];
     }
   }
 
-  return generatedFiles;
+  return { writes, results };
 }
 
-// Plugin export
-export default {
-  name: 'ai-test-writer',
-  router(app: any) {
-    app.post('/ai-generate-tests', async (req: any, res: any) => {
-      const { projectPath, uncoveredFiles } = req.body;
-      
-      if (!projectPath) {
-        return res.status(400).json({ error: 'Missing projectPath' });
-      }
-      
-      try {
-        const files = uncoveredFiles || [];
-        const generated = await generateAITests(projectPath, files);
-        
-        res.json({ 
-          success: true, 
-          generatedTestFiles: generated,
-          message: `Generated ${generated.length} AI-assisted test files using ${localLLMService.getProviderName()}`
-        });
-      } catch (e) {
-        console.error('AI Test generation error:', e);
-        res.status(500).json({ 
-          success: false, 
-          error: (e as any).message || 'Failed to generate AI tests' 
+/**
+ * Generate, run and repair loop for one file. Returns the accepted test, or undefined once the rounds
+ * run out; `result` records the attempts, status, coverage and the last errors either way.
+ */
+async function generateVerifiedTest(
+  projectRoot: string,
+  filePath: string,
+  testFilePath: string,
+  context: {
+    prompt: TestPromptContext;
+    baseline: CoverageMap;
+    result: AITestResult;
+    maxRounds: number;
+    signal?: AbortSignal;
+    progress?: (message: string) => void;
+  }
+): Promise<string | undefined> {
+  const { result } = context;
+  const before = coveredLines(context.baseline, filePath);
+  const beforeCovered = new Set(before.covered);
+  const beforePct = linePct(before.covered.length, before.coverable.length);
+  result.coverage = { before: beforePct, after: beforePct, linesGained: 0 };
+
+  // Same directory as the final test, so its relative imports resolve the same way
+  const testsDir = path.dirname(testFilePath);
+  // Directories the scratch file needs that do not exist yet, deepest first, to clean up afterwards
+  const createdDirs: string[] = [];
+  for (let dir = testsDir; !(await fs.pathExists(dir)); dir = path.dirname(dir)) createdDirs.push(dir);
+  const ext = path.extname(testFilePath);
+  const scratchFile = resolveProjectFile(projectRoot, path.join(testsDir, `${path.basename(testFilePath, `.test${ext}`)}.ai-scratch-${randomUUID().slice(0, 8)}.test${ext}`));
+
+  let test = '';
+  try {
+    for (let round = 1; round <= context.maxRounds; round++) {
+      context.signal?.throwIfAborted();
+      result.attempts = round;
+      context.progress?.(`${round === 1 ? 'Generating' : 'Repairing'} a test for ${result.file} (attempt ${round} of ${context.maxRounds})`);
+
+      const completion = round === 1
+        ? await localLLMService.generateCompletion(buildTestPrompt(context.prompt), { signal: context.signal })
+        : await localLLMService.generateCompletion(buildRepairPrompt(context.prompt, test, result.errors || []), {
+          systemPrompt: REPAIR_SYSTEM_PROMPT,
+          signal: context.signal
         });
+      if (!completion) {
+        result.status = 'error';
+        result.errors = ['The LLM returned no test'];
+        return undefined;
+      }
+      test = extractCode(completion);
+
+      await fs.ensureDir(testsDir);
+      await fs.writeFile(scratchFile, test);
+      context.progress?.(`Running the test for ${result.file}`);
+      const typeErrors = typeCheckFile(projectRoot, scratchFile).map(error => `Type error: ${error}`);
+      const run = await measureTestCoverage(projectRoot, [filePath], { testFiles: [scratchFile], signal: context.signal });
+
+      const failures = [...typeErrors, ...run.failures];
+      if (run.passed === 0 && failures.length === 0) failures.push('The file contains no test that ran');
+      if (failures.length) {
+        result.status = 'failing';
+        result.errors = failures;
+        continue;
+      }
+
+      const after = coveredLines(run.coverage, filePath);
+      const gained = after.covered.filter(line => !beforeCovered.has(line));
+      result.coverage = {
+        before: result.coverage.before,
+        after: linePct(beforeCovered.size + gained.length, after.coverable.length || before.coverable.length),
+        linesGained: gained.length
+      };
+      if (gained.length === 0) {
+        const uncovered = after.coverable.filter(line => !beforeCovered.has(line));
+        result.status = 'no-coverage-gain';
+        result.errors = [`The test passes but covers no line of ${result.file} that the existing tests miss. Lines still uncovered: ${formatLines(uncovered)}`];
+        continue;
       }
-    });
 
+      result.status = 'accepted';
+      delete result.errors;
+      return test;
+    }
+    return undefined;
+  } finally {
+    await fs.remove(scratchFile).catch(() => {});
+    for (const dir of createdDirs) await fs.rmdir(dir).catch(() => {});
+  }
+}
+
+/**
+ * Models often wrap the code in a markdown fence despite being asked not to.
+ */
+function extractCode(completion: string): string {
+  const fenced = /```[\w-]*\n([\s\S]*?)```/.exec(completion);
+  return (fenced ? fenced[1] : completion).trim() + '\n';
+}
+
+function linePct(covered: number, coverable: number): number {
+  return coverable === 0 ? 100 : Math.round((covered / coverable) * 10000) / 100;
+}
+
+function formatLines(lines: number[]): string {
+  return mergeLineRanges(lines.map(line => ({ start: { line, column: 0 }, end: { line, column: 0 } })))
+    .map(range => (range.start === range.end ? `${range.start}` : `${range.start}-${range.end}`))
+    .join(', ') || 'none';
+}
+
+/**
+ * Writes the tests planned by `planAITests` and returns the created files with the result per source file.
+ */
+export async function generateAITests(
+  projectRoot: string,
+  uncoveredFiles: any[],
+  options: GenerateOptions = {}
+): Promise<{ generatedTestFiles: string[]; results: AITestResult[] }> {
+  const { writes, results } = await planAITests(projectRoot, uncoveredFiles, options);
+  const changes = await writeFiles(projectRoot, writes);
+  return { generatedTestFiles: changes.map(change => change.file), results };
+}
+
+const aiTestResultSchema = {
+  type: 'object',
+  properties: {
+    file: { type: 'string' },
+    testFile: { type: 'string' },
+    status: { type: 'string', enum: ['generated', 'accepted', 'failing', 'no-coverage-gain', 'skipped', 'error'] },
+    attempts: { type: 'number' },
+    coverage: {
+      type: 'object',
+      properties: {
+        before: { type: 'number', description: 'Line coverage of the file by the existing tests, in percent' },
+        after: { type: 'number', description: 'Line coverage with the new test added, in percent' },
+        linesGained: { type: 'number' }
+      }
+    },
+    context: {
+      type: 'object',
+      properties: {
+        files: { type: 'array', items: { type: 'string' } },
+        tokens: { type: 'number' },
+        omitted: { type: 'array', items: { type: 'string' } }
+      }
+    },
+    errors: { type: 'array', items: { type: 'string' } }
+  }
+};
+
+export const generateAITestsTool = defineTool<{
+  projectPath: string;
+  uncoveredFiles: any[];
+  dryRun: boolean;
+  verify: boolean;
+  maxRepairRounds: number;
+  contextTokens: number;
+}>({
+  name: 'generate_ai_tests',
+  description: 'Generates Vitest test files for uncovered files using the configured LLM provider. ' +
+    'With verify, each test is run first and sent back to the LLM for repair until it passes and raises coverage.',
+  http: { method: 'post', path: '/ai-generate-tests' },
+  background: true,
+  scope: 'write',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectPath: projectPathProperty,
+      uncoveredFiles: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            file: { type: 'string' },
+            type: { type: 'string', enum: ['statement', 'branch', 'function'] },
+            start: positionSchema,
+            end: positionSchema,
+            functionName: { type: 'string' },
+            branchKind: { type: 'string' },
+            armIndex: { type: 'number' }
+          },
+          required: ['file']
+        },
+        default: [],
+        description: 'Uncovered entries as returned by analyze_coverage. Entries with start and end are marked in the prompt; ' +
+          'a file listed without them gets general tests'
+      },
+      dryRun: dryRunProperty,
+      verify: {
+        type: 'boolean',
+        default: false,
+        description: 'Run each generated test with Vitest and only keep it once it type-checks, passes and covers lines the existing tests miss'
+      },
+      maxRepairRounds: {
+        type: 'integer',
+        minimum: 0,
+        maximum: 5,
+        default: DEFAULT_REPAIR_ROUNDS,
+        description: 'How often a rejected test is sent back to the LLM with the errors, in verify mode'
+      },
+      contextTokens: {
+        type: 'integer',
+        minimum: 0,
+        maximum: 32000,
+        default: DEFAULT_CONTEXT_TOKENS,
+        description: 'Estimated tokens per prompt for the types and signatures of imported files, test utilities, setup files and neighbouring hooks'
+      }
+    },
+    required: ['projectPath']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      generatedTestFiles: { type: 'array', items: { type: 'string' } },
+      results: { type: 'array', items: aiTestResultSchema },
+      message: { type: 'string' },
+      dryRun: { type: 'boolean' },
+      changeSet: changeSetSchema
+    }
+  },
+  handler: async ({ projectPath, uncoveredFiles, dryRun, verify, maxRepairRounds, contextTokens }, { signal, progress }) => {
+    const options = { signal, progress, verify, maxRepairRounds, contextTokens };
+    if (dryRun) {
+      const { writes, results } = await planAITests(projectPath, uncoveredFiles, options);
+      const changeSet = await previewChanges('generate_ai_tests', projectPath, writes);
+      return {
+        dryRun: true,
+        changeSet: toChangeSetView(changeSet),
+        results,
+        message: `Previewed ${writes.length} AI-assisted test files using ${localLLMService.getProviderName()}`
+      };
+    }
+    const { generatedTestFiles, results } = await generateAITests(projectPath, uncoveredFiles, options);
+    return {
+      generatedTestFiles,
+      results,
+      message: `Generated ${generatedTestFiles.length} ${verify ? 'verified ' : ''}AI-assisted test files using ${localLLMService.getProviderName()}`
+    };
+  }
+});
+
+// Plugin export
+const plugin: ToolModule = {
+  name: 'ai-test-writer',
+  tools: [generateAITestsTool],
+  router(app) {
     // Enhanced health check endpoint for LLM configuration
-    app.get('/ai-health', async (_req: any, res: any) => {
+    app.get('/ai-health', requireScope('read'), async (_req, res) => {
       try {
         const isInitialized = await localLLMService.initialize();
+        // Only the health of the providers is checked again; the chain other requests use stays as it is
+        if (isInitialized) await localLLMService.refreshHealth();
         
         if (!isInitialized) {
           return res.json({ 
             status: 'not_configured', 
             message: 'LLM service could not be initialized',
-            availableProviders: ['openai', 'lmstudio', 'ollama', 'llamacpp', 'mlx']
+            availableProviders: ['openai', 'lmstudio', 'ollama', 'llamacpp', 'mlx'],
+            providers: localLLMService.getProviderStatus()
           });
         }
 
@@ -120,7 +429,9 @@ export default {
         res.json({ 
           status: 'healthy', 
           message: `${providerName} provider is ready`,
-          provider: providerName
+          provider: providerName,
+          // The whole fallback chain, with the circuit breaker state of each provider
+          providers: localLLMService.getProviderStatus()
         });
       } catch (error) {
         res.json({ 
@@ -132,9 +443,10 @@ export default {
     });
 
     // LLM provider configuration endpoint
-    app.get('/llm-config', async (_req: any, res: any) => {
+    app.get('/llm-config', requireScope('read'), async (_req, res) => {
       try {
-        const isInitialized = await localLLMService.initialize();
+        // Picks up edits of mcp.config.json or the environment; an unchanged config keeps the chain
+        const isInitialized = await localLLMService.reload();
         
         if (!isInitialized) {
           return res.json({
@@ -160,10 +472,16 @@ export default {
   },
 };
 
+export default plugin;
+
 function getConfigurationInstructions(): string {
   return `
 ## LLM Configuration Options
 
+Providers that time out, are rate limited or return 5xx errors are retried with backoff, then the next
+provider in the fallback chain is used. Set LLM_FALLBACK_PROVIDERS (e.g. \`lmstudio,openai\`) or
+\`llmFallbacks\` in mcp.config.json.
+
 ### OpenAI (Default)
 Set environment variables:
 - \`LLM_PROVIDER=openai\`
@@ -1,67 +1,260 @@
-import { exec } from 'child_process';
 import path from 'path';
 import fs from 'fs-extra';
+import { glob } from 'glob';
+import { defineTool, ToolError, ToolModule } from '../plugins/types.js';
+import { listChangedFiles } from '../services/git.js';
+import { COVERAGE_ARGS, recordCoverageHistory, runVitestCoverage } from '../services/vitest.js';
+import {
+  extractSnippet,
+  findUncovered,
+  LineRange,
+  mergeLineRanges,
+  readCoverageMap,
+  UncoveredEntry
+} from '../coverage/istanbul.js';
+
+export interface CoverageRunScope {
+  /** Globs of test files to run, relative to the project root */
+  testFiles?: string[];
+  /** Only run tests whose name matches (Vitest `-t`) */
+  testNamePattern?: string;
+  /** Vitest workspace project to run */
+  project?: string;
+  /** Only run tests related to files changed since this git ref, and only report those files */
+  changedSince?: string;
+}
+
+export interface AnalyzeCoverageOptions extends CoverageRunScope {
+  /** Attach the source lines of each uncovered location */
+  includeSource?: boolean;
+  /** Kills the Vitest run when aborted */
+  signal?: AbortSignal;
+}
 
 /**
  * Runs Vitest with coverage enabled and returns a JSON object describing uncovered lines.
+ * Failing tests do not hide the coverage; they are flagged with `testsFailed`.
  */
-export async function analyzeCoverageImpl(projectRoot: string): Promise<any> {
-  const vitestCmd = 'npx vitest run --coverage --reporter=json';
-  return new Promise((resolve, reject) => {
-    exec(vitestCmd, { cwd: projectRoot }, async (error, stdout, stderr) => {
-      if (error) {
-        return reject({ error: error.message, stderr });
+export async function analyzeCoverageImpl(projectRoot: string, options: AnalyzeCoverageOptions = {}): Promise<any> {
+  const coveragePath = path.join(projectRoot, 'coverage', 'coverage-final.json');
+  const { args, changedFiles } = await buildCoverageRunArgs(projectRoot, options);
+  const scope = { ...pickScope(options), changedFiles };
+
+  // Nothing changed since the ref, so there is nothing to run or report
+  if (changedFiles && changedFiles.length === 0) {
+    return { uncovered: [], uncoveredRanges: {}, coveragePath, scope };
+  }
+
+  // No shell: globs, name patterns and refs come straight from the request
+  const { testsFailed } = await runVitestCoverage(projectRoot, args, { signal: options.signal });
+
+  // Vitest writes coverage JSON to ./coverage/coverage-final.json by default
+  try {
+    await recordCoverageHistory(projectRoot, await readCoverageMap(coveragePath), 'analyze_coverage', {
+      scope: isFullRun(options) ? undefined : { ...pickScope(options) }
+    });
+    const analysis = await analyzeCoverageFile(coveragePath, { ...options, onlyFiles: changedFiles });
+    return { ...analysis, coveragePath, scope, testsFailed };
+  } catch (readErr) {
+    throw { error: 'Failed to read coverage file', details: readErr };
+  }
+}
+
+export function isFullRun(scope: CoverageRunScope): boolean {
+  return !scope.testFiles?.length && !scope.testNamePattern && !scope.project && !scope.changedSince;
+}
+
+function pickScope({ testFiles, testNamePattern, project, changedSince }: CoverageRunScope): CoverageRunScope {
+  return { testFiles, testNamePattern, project, changedSince };
+}
+
+/**
+ * Translates a run scope into `vitest run` arguments. In changed-since mode coverage
+ * collection is also limited to the changed files.
+ */
+export async function buildCoverageRunArgs(projectRoot: string, scope: CoverageRunScope) {
+  const { args, changedFiles } = await buildScopeArgs(projectRoot, scope);
+  return { args: ['run', ...COVERAGE_ARGS, '--reporter=json', ...args], changedFiles };
+}
+
+/**
+ * Vitest arguments selecting the tests of a run scope, without the command itself.
+ */
+export async function buildScopeArgs(projectRoot: string, scope: CoverageRunScope) {
+  const args: string[] = [];
+  let changedFiles: string[] | undefined;
+
+  if (scope.testFiles?.length) {
+    const files = await glob(scope.testFiles, { cwd: projectRoot, nodir: true, ignore: ['**/node_modules/**'] });
+    if (files.length === 0) {
+      throw new ToolError(`No test files match ${scope.testFiles.join(', ')}`, 400);
+    }
+    args.push(...files.sort());
+  }
+
+  if (scope.testNamePattern) {
+    args.push('--testNamePattern', scope.testNamePattern);
+  }
+
+  if (scope.project) {
+    args.push('--project', scope.project);
+  }
+
+  if (scope.changedSince) {
+    try {
+      changedFiles = await listChangedFiles(projectRoot, scope.changedSince);
+    } catch (e) {
+      throw new ToolError((e as Error).message, 400);
+    }
+    args.push('--changed', scope.changedSince);
+    for (const file of changedFiles) {
+      args.push(`--coverage.include=${path.relative(projectRoot, file).split(path.sep).join('/')}`);
+    }
+  }
+
+  return { args, changedFiles };
+}
+
+/**
+ * Resolves uncovered statements, branch arms and functions in an existing coverage-final.json
+ * to source locations, and merges them into uncovered line ranges per file.
+ */
+export async function analyzeCoverageFile(
+  coveragePath: string,
+  options: { includeSource?: boolean; onlyFiles?: string[] } = {}
+) {
+  const coverage = await readCoverageMap(coveragePath);
+  const uncovered: UncoveredEntry[] = [];
+  const uncoveredRanges: Record<string, LineRange[]> = {};
+  const onlyFiles = options.onlyFiles && new Set(options.onlyFiles.map(f => path.resolve(f)));
+
+  for (const file of Object.keys(coverage)) {
+    if (onlyFiles && !onlyFiles.has(path.resolve(file))) continue;
+
+    const entries = findUncovered(file, coverage[file]);
+    if (entries.length === 0) continue;
+
+    if (options.includeSource && await fs.pathExists(file)) {
+      const sourceLines = (await fs.readFile(file, 'utf-8')).split(/\r?\n/);
+      for (const entry of entries) {
+        entry.snippet = extractSnippet(sourceLines, entry.start, entry.end);
       }
-      // Vitest writes coverage JSON to ./coverage/coverage-final.json by default (c8)
-      const coveragePath = path.join(projectRoot, 'coverage', 'coverage-final.json');
-      try {
-        const raw = await fs.readFile(coveragePath, 'utf-8');
-        const coverage = JSON.parse(raw);
-        // Find uncovered statements/branches/functions
-        const uncovered: any[] = [];
-        for (const file of Object.keys(coverage)) {
-          const data = coverage[file];
-          // statements
-          for (const [stmtId, count] of Object.entries(data.s || {})) {
-            if (count === 0) {
-              uncovered.push({ file, type: 'statement', id: stmtId });
-            }
-          }
-          // branches
-          for (const [branchId, counts] of Object.entries(data.b || {})) {
-            if ((counts as number[]).some(c => c === 0)) {
-              uncovered.push({ file, type: 'branch', id: branchId });
-            }
-          }
-          // functions
-          for (const [fnId, count] of Object.entries(data.f || {})) {
-            if (count === 0) {
-              uncovered.push({ file, type: 'function', id: fnId });
-            }
+    }
+
+    uncovered.push(...entries);
+    // Istanbul's `if` arm locations span the whole statement including the condition that did run,
+    // so only statements and functions decide which lines are uncovered
+    uncoveredRanges[file] = mergeLineRanges(entries.filter(e => e.type !== 'branch'));
+  }
+
+  return { uncovered, uncoveredRanges };
+}
+
+export const projectPathProperty = {
+  type: 'string',
+  description: 'Absolute path to the root of the React Vite project'
+};
+
+/** `projectPath` of tools that fall back to the default project */
+export const projectRootProperty = {
+  type: 'string',
+  description: 'Absolute path to the project root. Defaults to the default project, else the server\'s working directory'
+};
+
+export const positionSchema = {
+  type: 'object',
+  properties: { line: { type: 'number' }, column: { type: ['number', 'null'] } }
+};
+
+export const analyzeCoverageTool = defineTool<{ projectPath: string; includeSource: boolean } & CoverageRunScope>({
+  name: 'analyze_coverage',
+  description: 'Runs Vitest with coverage enabled and lists uncovered statements, branches and functions. ' +
+    'The run can be scoped to test files, a test name pattern, a workspace project or files changed since a git ref.',
+  http: { method: 'post', path: '/analyze-coverage' },
+  background: true,
+  scope: 'analyze',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectPath: projectPathProperty,
+      includeSource: {
+        type: 'boolean',
+        default: false,
+        description: 'Include the source snippet of each uncovered location'
+      },
+      testFiles: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Globs of test files to run, relative to projectPath'
+      },
+      testNamePattern: { type: 'string', description: 'Only run tests whose name matches this pattern (vitest -t)' },
+      project: { type: 'string', description: 'Vitest workspace project to run' },
+      changedSince: {
+        type: 'string',
+        description: 'Git ref; only runs tests related to files changed since it and only reports coverage for those files'
+      }
+    },
+    required: ['projectPath']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      uncovered: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            file: { type: 'string' },
+            type: { type: 'string', enum: ['statement', 'branch', 'function'] },
+            id: { type: 'string' },
+            start: positionSchema,
+            end: positionSchema,
+            functionName: { type: 'string' },
+            branchKind: { type: 'string' },
+            armIndex: { type: 'number' },
+            snippet: { type: 'string' }
           }
         }
-        resolve({ uncovered, coveragePath });
-      } catch (readErr) {
-        reject({ error: 'Failed to read coverage file', details: readErr });
-      }
-    });
-  });
-}
+      },
+      uncoveredRanges: {
+        type: 'object',
+        description: 'Merged uncovered line ranges keyed by file',
+        additionalProperties: {
+          type: 'array',
+          items: { type: 'object', properties: { start: { type: 'number' }, end: { type: 'number' } } }
+        }
+      },
+      coveragePath: { type: 'string' },
+      scope: {
+        type: 'object',
+        properties: {
+          testFiles: { type: 'array', items: { type: 'string' } },
+          testNamePattern: { type: 'string' },
+          project: { type: 'string' },
+          changedSince: { type: 'string' },
+          changedFiles: { type: 'array', items: { type: 'string' } }
+        }
+      },
+      testsFailed: { type: 'boolean', description: 'Some tests failed; see test_results for why' }
+    }
+  },
+  handler: async ({ projectPath, ...options }, { signal, progress }) => {
+    progress('Running Vitest with coverage');
+    const result = await analyzeCoverageImpl(projectPath, { ...options, signal });
+    return {
+      uncovered: result.uncovered,
+      uncoveredRanges: result.uncoveredRanges,
+      coveragePath: result.coveragePath,
+      scope: result.scope,
+      testsFailed: result.testsFailed
+    };
+  }
+});
 
 // Plugin export for dynamic loading
-export default {
+const plugin: ToolModule = {
   name: 'coverage-analyzer',
-  router(app: any) {
-    app.post('/analyze-coverage', async (req: any, res: any) => {
-      const { projectPath } = req.body;
-      if (!projectPath) return res.status(400).json({ error: 'Missing projectPath' });
-      try {
-        const result = await analyzeCoverageImpl(projectPath);
-        res.json({ success: true, uncovered: result.uncovered, coveragePath: result.coveragePath });
-      } catch (e) {
-        console.error(e);
-        res.status(500).json({ success: false, error: (e as any).error || e });
-      }
-    });
-  },
-};
\ No newline at end of file
+  tools: [analyzeCoverageTool],
+};
+
+export default plugin;
\ No newline at end of file
@@ -0,0 +1,135 @@
+import { defineTool, JsonSchema, ToolError, ToolModule } from '../plugins/types.js';
+import {
+  applyChangeSet,
+  ChangeSet,
+  ChangeSetStatus,
+  discardChangeSet,
+  getChangeSet,
+  listChangeSets,
+  toChangeSetView
+} from '../services/changeSets.js';
+
+const CHANGE_SET_STATUSES: ChangeSetStatus[] = ['pending', 'applied'];
+
+export const dryRunProperty = {
+  type: 'boolean',
+  default: false,
+  description: 'Return the planned file changes as unified diffs in a change set instead of writing them. Apply it with apply_change_set'
+};
+
+export const changeSetSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    tool: { type: 'string' },
+    projectRoot: { type: 'string' },
+    status: { type: 'string', enum: CHANGE_SET_STATUSES },
+    createdAt: { type: 'string' },
+    expiresAt: { type: 'string' },
+    appliedAt: { type: 'string' },
+    files: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string' },
+          action: { type: 'string', enum: ['create', 'update'] },
+          diff: { type: 'string' }
+        }
+      }
+    },
+    commands: { type: 'array', items: { type: 'string' } }
+  }
+};
+
+function findChangeSet(id: string): ChangeSet {
+  const changeSet = getChangeSet(id);
+  if (!changeSet) {
+    throw new ToolError(`Change set ${id} not found or expired`, 404);
+  }
+  return changeSet;
+}
+
+export const applyChangeSetTool = defineTool<{ id: string }>({
+  name: 'apply_change_set',
+  description: 'Writes the files of a change set previewed with dryRun and runs its commands. ' +
+    'Fails with 409 when one of the files changed since the preview.',
+  http: { method: 'post', path: '/change-sets/:id/apply' },
+  scope: 'write',
+  inputSchema: {
+    type: 'object',
+    properties: { id: { type: 'string' } },
+    required: ['id']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      changeSet: changeSetSchema,
+      output: { type: 'string', description: 'Output of the commands' }
+    }
+  },
+  handler: async ({ id }) => {
+    const { changeSet, output } = await applyChangeSet(id);
+    return { changeSet: toChangeSetView(changeSet), output };
+  }
+});
+
+export const getChangeSetTool = defineTool<{ id: string }>({
+  name: 'get_change_set',
+  description: 'Files, diffs and commands of a change set.',
+  http: { method: 'get', path: '/change-sets/:id' },
+  scope: 'read',
+  inputSchema: {
+    type: 'object',
+    properties: { id: { type: 'string' } },
+    required: ['id']
+  },
+  outputSchema: changeSetSchema,
+  handler: async ({ id }) => toChangeSetView(findChangeSet(id))
+});
+
+export const listChangeSetsTool = defineTool<{ status?: ChangeSetStatus; projectPath?: string }>({
+  name: 'list_change_sets',
+  description: 'Lists the change sets that have not expired, newest first.',
+  http: { method: 'get', path: '/change-sets' },
+  scope: 'read',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      status: { type: 'string', enum: CHANGE_SET_STATUSES },
+      projectPath: { type: 'string', description: 'Only change sets of this project' }
+    }
+  },
+  outputSchema: {
+    type: 'object',
+    properties: { changeSets: { type: 'array', items: changeSetSchema } }
+  },
+  handler: async ({ status, projectPath }) => ({
+    changeSets: listChangeSets({ status, projectRoot: projectPath }).map(toChangeSetView)
+  })
+});
+
+export const discardChangeSetTool = defineTool<{ id: string }>({
+  name: 'discard_change_set',
+  description: 'Drops a change set without writing it.',
+  http: { method: 'delete', path: '/change-sets/:id' },
+  scope: 'write',
+  inputSchema: {
+    type: 'object',
+    properties: { id: { type: 'string' } },
+    required: ['id']
+  },
+  outputSchema: changeSetSchema,
+  handler: async ({ id }) => {
+    findChangeSet(id);
+    return toChangeSetView(discardChangeSet(id)!);
+  }
+});
+
+// Plugin export
+const plugin: ToolModule = {
+  name: 'change-sets',
+  tools: [applyChangeSetTool, getChangeSetTool, listChangeSetsTool, discardChangeSetTool],
+};
+
+export default plugin;
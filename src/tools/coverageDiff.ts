@@ -1,147 +1,298 @@
-import { execSync } from 'child_process';
 import fs from 'fs-extra';
+import os from 'os';
 import path from 'path';
+import { defineTool, ToolError, ToolModule } from '../plugins/types.js';
+import { CoverageMap, readCoverageMap } from '../coverage/istanbul.js';
+import { absolutizeCoverage, readBaseline, relativizeCoverage, writeBaseline } from '../coverage/baselines.js';
+import { CoverageDiff, computeCoverageDiff } from '../coverage/diff.js';
+import { computePatchCoverage, parseUnifiedDiff } from '../coverage/patch.js';
+import { METRICS, resolveMetricThresholds, summarizeCoverage } from '../coverage/summary.js';
+import { coverageColor, deltaColor, renderBadge } from '../coverage/badge.js';
+import { CoverageMetricName } from '../config.js';
+import { requireScope } from '../services/auth.js';
+import { diffRange, git, listRenamedFiles, resolveCommit } from '../services/git.js';
+import { defaultProjectRoot, getCoverageThresholds, resolveProjectRoot } from '../services/projects.js';
+import { assertAllowedPath } from '../services/sandbox.js';
+import { readLatestCoverage, recordCoverageHistory, runCoverage } from '../services/vitest.js';
+import { projectRootProperty } from './analyzeCoverage.js';
+
+export interface CoverageDiffOptions {
+  projectRoot?: string;
+  /** Ignore a stored baseline for the base commit and rebuild it */
+  refreshBaseline?: boolean;
+  /** Kills the coverage runs when aborted */
+  signal?: AbortSignal;
+  progress?: (message: string) => void;
+}
 
 /**
- * Generates coverage diff between current branch and base branch
+ * Generates coverage diff between current branch and base branch.
+ * The base side comes from a stored baseline for the base commit, or is built in a temporary
+ * git worktree; the user's checkout is never switched.
  */
-export async function generateCoverageDiff(baseBranch = 'main'): Promise<any> {
-  // Store current branch coverage JSON
-  execSync('npx vitest run --coverage --reporter=json', { stdio: 'inherit' });
-  const currentCov = await fs.readJSON(path.join(process.cwd(), 'coverage', 'coverage-final.json'));
+export async function generateCoverageDiff(baseBranch = 'main', options: CoverageDiffOptions = {}): Promise<any> {
+  const projectRoot = options.projectRoot || defaultProjectRoot();
 
-  // Checkout base branch, run coverage again
+  let baseSha: string;
   try {
-    execSync(`git checkout ${baseBranch}`);
-    execSync('npx vitest run --coverage --reporter=json');
-    const baseCov = await fs.readJSON(path.join(process.cwd(), 'coverage', 'coverage-final.json'));
+    baseSha = await resolveCommit(projectRoot, baseBranch);
+  } catch (error) {
+    return {
+      success: false,
+      error: `Base branch ${baseBranch} could not be resolved: ${(error as Error).message}`
+    };
+  }
 
-    // Switch back to previous branch
-    execSync('git checkout -'); // returns you to the branch you were on
+  // Coverage of the working copy as it is, uncommitted changes included
+  options.progress?.('Running coverage on the working copy');
+  const currentCov = await runCoverage(projectRoot, { signal: options.signal });
+  await recordCoverageHistory(projectRoot, currentCov, 'coverage_diff');
 
-    const diff = computeDiff(baseCov, currentCov);
-    return { success: true, diff };
+  try {
+    const base = await getBaseCoverage(projectRoot, baseSha, options);
+    const renames = await listRenamedFiles(projectRoot, baseSha);
+    const diff = computeCoverageDiff(base.coverage, currentCov, projectRoot, renames);
+    return { success: true, diff, base: { ref: baseBranch, sha: baseSha, source: base.source } };
   } catch (error) {
-    // If checkout fails, return current coverage only
-    execSync('git checkout -');
-    return { 
-      success: false, 
-      error: 'Failed to compare with base branch. Ensure you have git history and the base branch exists.',
-      currentCoverage: currentCov 
+    return {
+      success: false,
+      error: `Failed to compute coverage for ${baseBranch} (${baseSha}): ${(error as any).message || (error as any).error || error}`,
+      currentCoverage: currentCov
     };
   }
 }
 
-function computeDiff(base: any, current: any) {
-  const files = new Set([...Object.keys(base), ...Object.keys(current)]);
-  const result: Record<string, { 
-    baseStatements: number; 
-    currentStatements: number;
-    statementChange: number;
-    baseBranches?: number;
-    currentBranches?: number;
-    branchChange?: number;
-  }> = {};
-
-  for (const f of files) {
-    const baseS = (base[f]?.s ?? {});
-    const curS = (current[f]?.s ?? {});
-    
-    // Sum covered statements
-    const baseCovered = Object.values(baseS).reduce((a, b) => a + (b as number), 0);
-    const curCovered = Object.values(curS).reduce((a, b) => a + (b as number), 0);
-    
-    const baseB = (base[f]?.b ?? {});
-    const curB = (current[f]?.b ?? {});
-
-    result[f] = { 
-      baseStatements: baseCovered, 
-      currentStatements: curCovered,
-      statementChange: curCovered - baseCovered,
-      baseBranches: Object.values(baseB).reduce((a, b) => a + (b as number), 0),
-      currentBranches: Object.values(curB).reduce((a, b) => a + (b as number), 0),
-      branchChange: Object.values(curB).reduce((a, b) => a + (b as number), 0) - 
-                   Object.values(baseB).reduce((a, b) => a + (b as number), 0)
-    };
+async function getBaseCoverage(projectRoot: string, sha: string, options: CoverageDiffOptions) {
+  const stored = options.refreshBaseline ? null : await readBaseline(projectRoot, sha);
+  if (stored) {
+    return { coverage: stored, source: 'baseline' as const };
   }
-  
-  return result;
+
+  options.progress?.(`Running coverage on ${sha.slice(0, 7)} in a temporary worktree`);
+  const coverage = await buildCoverageInWorktree(projectRoot, sha, options.signal);
+  await writeBaseline(projectRoot, sha, coverage);
+  await recordCoverageHistory(projectRoot, coverage, 'coverage_diff', { commit: { sha, branch: null, dirty: false } });
+  return { coverage, source: 'worktree' as const };
 }
 
 /**
- * Generates SVG badge for coverage change
+ * Checks the commit out into a detached temporary worktree, runs coverage there and maps the
+ * file paths back onto the project root. The worktree is removed whatever happens.
  */
-export async function generateCoverageBadge(): Promise<string> {
-  const diffResult = await generateCoverageDiff();
-  
-  if (!diffResult.success) {
-    return generateSimpleBadge('coverage', 'N/A', 'lightgrey');
+async function buildCoverageInWorktree(projectRoot: string, sha: string, signal?: AbortSignal): Promise<CoverageMap> {
+  const topLevel = (await git(projectRoot, ['rev-parse', '--show-toplevel'])).trim();
+  const worktree = await fs.mkdtemp(path.join(os.tmpdir(), 'vitest-mcp-base-'));
+  const worktreeProject = path.join(worktree, path.relative(topLevel, projectRoot));
+
+  try {
+    await git(projectRoot, ['worktree', 'add', '--detach', worktree, sha]);
+
+    // Reuse installed dependencies instead of installing them again
+    for (const [from, to] of [[topLevel, worktree], [projectRoot, worktreeProject]]) {
+      const modules = path.join(from, 'node_modules');
+      if (await fs.pathExists(modules) && !(await fs.pathExists(path.join(to, 'node_modules')))) {
+        await fs.symlink(modules, path.join(to, 'node_modules'), 'junction');
+      }
+    }
+
+    const coverage = await runCoverage(worktreeProject, { signal });
+    return absolutizeCoverage(relativizeCoverage(coverage, worktreeProject), projectRoot);
+  } finally {
+    await git(projectRoot, ['worktree', 'remove', '--force', worktree]).catch(() => undefined);
+    await fs.remove(worktree);
+    await git(projectRoot, ['worktree', 'prune']).catch(() => undefined);
   }
+}
 
-  // Compute overall statement coverage change
-  let baseTotal = 0, curTotal = 0;
-  
-  for (const fileData of Object.values(diffResult.diff)) {
-    baseTotal += fileData.baseStatements;
-    curTotal += fileData.currentStatements;
+/**
+ * Stores an existing coverage-final.json as the baseline of a commit, e.g. from a CI run on main.
+ */
+export async function saveCoverageBaseline(
+  projectRoot: string,
+  options: { ref?: string; coveragePath?: string; force?: boolean } = {}
+) {
+  const ref = options.ref || 'HEAD';
+  const sha = await resolveCommit(projectRoot, ref);
+
+  // Uncommitted changes would make the baseline disagree with the commit it is stored under
+  if (!options.force && sha === await resolveCommit(projectRoot, 'HEAD')) {
+    const status = await git(projectRoot, ['status', '--porcelain', '--untracked-files=no']);
+    if (status.trim()) {
+      throw new ToolError('Working tree has uncommitted changes; pass force to store the baseline anyway', 409);
+    }
+  }
+
+  const coveragePath = assertAllowedPath(
+    options.coveragePath || path.join(projectRoot, 'coverage', 'coverage-final.json'),
+    'Coverage file'
+  );
+  if (!(await fs.pathExists(coveragePath))) {
+    throw new ToolError(`Coverage file not found at ${coveragePath}. Run coverage analysis first.`, 404);
   }
-  
-  const change = baseTotal ? ((curTotal - baseTotal) / baseTotal) * 100 : 0;
-  const color = change >= 0 ? 'brightgreen' : 'red';
-  const label = `coverage Δ ${change.toFixed(1)}%`;
-  
-  return generateSimpleBadge('coverage', label, color);
+
+  const baselinePath = await writeBaseline(projectRoot, sha, await readCoverageMap(coveragePath));
+  return { sha, baselinePath };
 }
 
-function generateSimpleBadge(label: string, message: string, color: string): string {
-  const encodedLabel = encodeURIComponent(label);
-  const encodedMessage = encodeURIComponent(message);
-  
-  // Simple SVG badge using shields.io style
-  return `<svg xmlns="http://www.w3.org/2000/svg" width="${Math.max(80, message.length * 7)}" height="20">
-    <rect width="${Math.max(80, message.length * 7)}" height="20" fill="#555"/>
-    <text x="${Math.max(40, message.length * 3.5)}" y="14" text-anchor="middle" fill="#fff" font-size="12">${message}</text>
-  </svg>`;
+export const BADGE_METRICS = [...METRICS, 'patch', 'delta'] as const;
+export type BadgeMetric = (typeof BADGE_METRICS)[number];
+
+export interface CoverageBadgeOptions {
+  metric?: BadgeMetric;
+  /** Base ref for the `delta` and `patch` badges */
+  base?: string;
+  label?: string;
 }
 
-// Plugin export
-export default {
-  name: 'coverage-diff',
-  router(app: any) {
-    app.post('/coverage-diff', async (req: any, res: any) => {
-      const { baseBranch = 'main' } = req.body;
-      
-      try {
-        const diffResult = await generateCoverageDiff(baseBranch);
-        
-        if (diffResult.success) {
-          res.json({ 
-            success: true, 
-            diff: diffResult.diff,
-            summary: generateDiffSummary(diffResult.diff)
-          });
-        } else {
-          res.status(400).json({ 
-            success: false, 
-            error: diffResult.error,
-            currentCoverage: diffResult.currentCoverage 
-          });
+/**
+ * Renders a coverage badge from the latest coverage run; never runs tests itself.
+ * `delta` compares against a stored baseline of the base commit, `patch` covers the lines
+ * changed since the base ref.
+ */
+export async function generateCoverageBadge(projectRoot: string, options: CoverageBadgeOptions = {}): Promise<string> {
+  const metric = options.metric || 'statements';
+  const base = options.base || 'main';
+  const label = options.label || (metric === 'delta' ? 'coverage Δ' : metric === 'patch' ? 'patch coverage' : metric);
+
+  const latest = await readLatestCoverage(projectRoot);
+  if (!latest) {
+    return renderBadge(label, 'unknown', 'lightgrey');
+  }
+
+  if (metric === 'delta') {
+    const sha = await resolveCommit(projectRoot, base).catch(() => null);
+    const baseline = sha && await readBaseline(projectRoot, sha);
+    if (!baseline) {
+      return renderBadge(label, 'no baseline', 'lightgrey');
+    }
+    const change = computeCoverageDiff(baseline, latest.coverage, projectRoot).total.statements.delta;
+    return renderBadge(label, `${change > 0 ? '+' : ''}${change.toFixed(1)}%`, deltaColor(change));
+  }
+
+  if (metric === 'patch') {
+    const changes = await diffRange(projectRoot, base).catch(() => null);
+    if (!changes) {
+      return renderBadge(label, 'unknown', 'lightgrey');
+    }
+    const changedLines: Record<string, number[]> = {};
+    for (const [file, lines] of Object.entries(parseUnifiedDiff(changes.diff))) {
+      changedLines[path.join(changes.topLevel, file)] = lines;
+    }
+    const { total } = computePatchCoverage(latest.coverage, changedLines, projectRoot);
+    if (total.coverable === 0) {
+      return renderBadge(label, 'n/a', 'lightgrey');
+    }
+    return renderBadge(label, formatPct(total.pct), coverageColor(total.pct, globalThreshold(projectRoot, 'lines')));
+  }
+
+  const { pct } = summarizeCoverage(latest.coverage, projectRoot).total[metric];
+  return renderBadge(label, formatPct(pct), coverageColor(pct, globalThreshold(projectRoot, metric)));
+}
+
+function formatPct(pct: number): string {
+  return `${Number.isInteger(pct) ? pct : pct.toFixed(1)}%`;
+}
+
+function globalThreshold(projectRoot: string, metric: CoverageMetricName): number | undefined {
+  const value = resolveMetricThresholds(getCoverageThresholds(projectRoot))[metric];
+  // A negative threshold counts uncovered items and says nothing about the percentage
+  return value !== undefined && value >= 0 ? value : undefined;
+}
+
+export const coverageDiffTool = defineTool<{ projectPath?: string; baseBranch: string; refreshBaseline: boolean }>({
+  name: 'coverage_diff',
+  description: 'Compares coverage of the current working copy against a base branch. ' +
+    'Base coverage comes from a stored baseline for the base commit or is built in a temporary git worktree.',
+  http: { method: 'post', path: '/coverage-diff' },
+  background: true,
+  scope: 'analyze',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectPath: projectRootProperty,
+      baseBranch: { type: 'string', description: 'Branch, tag or commit to compare against', default: 'main' },
+      refreshBaseline: {
+        type: 'boolean',
+        default: false,
+        description: 'Rebuild the base coverage even if a baseline is stored for the base commit'
+      }
+    }
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      diff: { type: 'object' },
+      summary: { type: 'object' },
+      base: {
+        type: 'object',
+        properties: {
+          ref: { type: 'string' },
+          sha: { type: 'string' },
+          source: { type: 'string', enum: ['baseline', 'worktree'] }
         }
-      } catch (e) {
-        console.error('Coverage diff error:', e);
-        res.status(500).json({ 
-          success: false, 
-          error: (e as any).message || 'Failed to generate coverage diff' 
-        });
       }
-    });
+    }
+  },
+  handler: async ({ projectPath, baseBranch, refreshBaseline }, { signal, progress }) => {
+    const diffResult = await generateCoverageDiff(baseBranch, { projectRoot: projectPath, refreshBaseline, signal, progress });
+    if (!diffResult.success) {
+      throw new ToolError(diffResult.error, 400, { currentCoverage: diffResult.currentCoverage });
+    }
+    return { diff: diffResult.diff, summary: generateDiffSummary(diffResult.diff), base: diffResult.base };
+  }
+});
 
-    app.get('/coverage-badge.svg', async (_req: any, res: any) => {
+export const saveBaselineTool = defineTool<{ projectPath?: string; ref: string; coveragePath?: string; force: boolean }>({
+  name: 'save_coverage_baseline',
+  description: 'Stores the current coverage-final.json as the baseline coverage of a commit so coverage diffs can reuse it.',
+  http: { method: 'post', path: '/coverage-baseline' },
+  scope: 'write',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectPath: projectRootProperty,
+      ref: { type: 'string', default: 'HEAD', description: 'Commit the coverage belongs to' },
+      coveragePath: { type: 'string', description: 'Defaults to coverage/coverage-final.json' },
+      force: { type: 'boolean', default: false, description: 'Store even if the working tree has uncommitted changes' }
+    }
+  },
+  outputSchema: {
+    type: 'object',
+    properties: { sha: { type: 'string' }, baselinePath: { type: 'string' } }
+  },
+  handler: async ({ projectPath, ref, coveragePath, force }) => {
+    try {
+      return await saveCoverageBaseline(projectPath ?? defaultProjectRoot(), { ref, coveragePath, force });
+    } catch (e) {
+      if (e instanceof ToolError) throw e;
+      throw new ToolError((e as Error).message, 400);
+    }
+  }
+});
+
+// Plugin export
+const plugin: ToolModule = {
+  name: 'coverage-diff',
+  tools: [coverageDiffTool, saveBaselineTool],
+  router(app) {
+    app.get('/coverage-badge.svg', requireScope('read'), async (req, res) => {
+      const metric = (req.query.metric as string | undefined) || 'statements';
+      if (!(BADGE_METRICS as readonly string[]).includes(metric)) {
+        return res.status(400).send(`Unknown metric ${metric}; expected one of ${BADGE_METRICS.join(', ')}`);
+      }
       try {
-        const svg = await generateCoverageBadge();
+        const svg = await generateCoverageBadge(resolveProjectRoot(req.query as Record<string, string>), {
+          metric: metric as BadgeMetric,
+          base: req.query.base as string | undefined,
+          label: req.query.label as string | undefined
+        });
         res.setHeader('Content-Type', 'image/svg+xml');
+        res.setHeader('Cache-Control', 'no-cache');
         res.send(svg);
       } catch (e) {
+        if (e instanceof ToolError) {
+          return res.status(e.statusCode).send(e.message);
+        }
         console.error('Badge generation error:', e);
         res.status(500).send('Error generating badge');
       }
@@ -149,23 +300,35 @@ export default {
   },
 };
 
-function generateDiffSummary(diff: any) {
-  let totalFiles = Object.keys(diff).length;
+export default plugin;
+
+/**
+ * Counts files by how their statement coverage percentage moved, plus the overall change per metric.
+ */
+export function generateDiffSummary(diff: CoverageDiff) {
+  const files = Object.values(diff.files);
   let improvedFiles = 0;
   let degradedFiles = 0;
-  let totalStatementChange = 0;
 
-  for (const fileData of Object.values(diff)) {
-    if (fileData.statementChange > 0) improvedFiles++;
-    if (fileData.statementChange < 0) degradedFiles++;
-    totalStatementChange += fileData.statementChange;
+  for (const fileData of files) {
+    const change = fileData.statements.delta;
+    if (change !== null && change > 0) improvedFiles++;
+    if (change !== null && change < 0) degradedFiles++;
+  }
+
+  const overallChange = {} as Record<(typeof METRICS)[number], number>;
+  for (const metric of METRICS) {
+    overallChange[metric] = diff.total[metric].delta;
   }
 
   return {
-    totalFiles,
+    totalFiles: files.length,
     improvedFiles,
     degradedFiles,
-    unchangedFiles: totalFiles - improvedFiles - degradedFiles,
-    totalStatementChange
+    unchangedFiles: files.filter(f => f.status === 'existing' || f.status === 'renamed').length - improvedFiles - degradedFiles,
+    addedFiles: files.filter(f => f.status === 'added').length,
+    deletedFiles: files.filter(f => f.status === 'deleted').length,
+    renamedFiles: files.filter(f => f.status === 'renamed').length,
+    overallChange
   };
-}
\ No newline at end of file
+}
@@ -1,11 +1,15 @@
 import fs from 'fs-extra';
-import path from 'path';
+import { defineTool, ToolError, ToolModule } from '../plugins/types.js';
+import { requireScope } from '../services/auth.js';
+import { defaultProjectRoot, resolveProjectRoot } from '../services/projects.js';
+import { resolveProjectFile } from '../services/sandbox.js';
+import { projectRootProperty } from './analyzeCoverage.js';
 
 /**
  * Generates an interactive HTML heatmap showing uncovered code lines
  */
-export async function generateCoverageHeatmap(): Promise<string> {
-  const coveragePath = path.join(process.cwd(), 'coverage', 'coverage-final.json');
+export async function generateCoverageHeatmap(projectRoot: string): Promise<string> {
+  const coveragePath = resolveProjectFile(projectRoot, 'coverage/coverage-final.json');
   
   if (!(await fs.pathExists(coveragePath))) {
     throw new Error('Coverage file not found. Run coverage analysis first: npx vitest run --coverage');
@@ -432,51 +436,61 @@ export async function generateCoverageHeatmap(): Promise<string> {
 </body>
 </html>`;
 
-  const outPath = path.join(process.cwd(), 'coverage', 'heatmap.html');
+  const outPath = resolveProjectFile(projectRoot, 'coverage/heatmap.html');
   await fs.writeFile(outPath, html);
   
   return outPath;
 }
 
+export const coverageHeatmapTool = defineTool<{ projectPath?: string }>({
+  name: 'generate_coverage_heatmap',
+  description: 'Renders an HTML heatmap of uncovered code from the latest coverage-final.json.',
+  http: { method: 'get', path: '/generate-heatmap' },
+  scope: 'read',
+  inputSchema: { type: 'object', properties: { projectPath: projectRootProperty } },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      heatmapPath: { type: 'string' },
+      url: { type: 'string' },
+      message: { type: 'string' }
+    }
+  },
+  handler: async ({ projectPath }) => ({
+    heatmapPath: await generateCoverageHeatmap(projectPath ?? defaultProjectRoot()),
+    // /coverage only serves the server's own coverage directory
+    url: projectPath ? `/coverage-heatmap.html?projectPath=${encodeURIComponent(projectPath)}` : `/coverage/heatmap.html`,
+    message: 'Coverage heatmap generated successfully'
+  })
+});
+
 // Plugin export
-export default {
+const plugin: ToolModule = {
   name: 'coverage-heatmap',
-  router(app: any) {
-    app.get('/generate-heatmap', async (_req: any, res: any) => {
-      try {
-        const filePath = await generateCoverageHeatmap();
-        
-        res.json({
-          success: true,
-          heatmapPath: filePath,
-          url: `/coverage/heatmap.html`,
-          message: 'Coverage heatmap generated successfully'
-        });
-      } catch (e) {
-        console.error('Heatmap generation error:', e);
-        res.status(500).json({
-          success: false,
-          error: (e as any).message || 'Failed to generate coverage heatmap'
-        });
-      }
-    });
-
+  tools: [coverageHeatmapTool],
+  router(app) {
     // Serve the heatmap directly
-    app.get('/coverage-heatmap.html', async (_req: any, res: any) => {
+    app.get('/coverage-heatmap.html', requireScope('read'), async (req, res) => {
       try {
-        const heatmapPath = path.join(process.cwd(), 'coverage', 'heatmap.html');
+        const projectRoot = resolveProjectRoot(req.query as Record<string, string>);
+        const heatmapPath = resolveProjectFile(projectRoot, 'coverage/heatmap.html');
         
         if (await fs.pathExists(heatmapPath)) {
           res.sendFile(heatmapPath);
         } else {
           // Generate on-demand if it doesn't exist
-          const filePath = await generateCoverageHeatmap();
+          const filePath = await generateCoverageHeatmap(projectRoot);
           res.sendFile(filePath);
         }
       } catch (e) {
+        if (e instanceof ToolError) {
+          return res.status(e.statusCode).send(e.message);
+        }
         console.error('Heatmap serving error:', e);
         res.status(500).send('Error generating heatmap');
       }
     });
   },
-};
\ No newline at end of file
+};
+
+export default plugin;
@@ -0,0 +1,208 @@
+import {
+  coverageTrend,
+  CoverageRun,
+  findRegressions,
+  listCoverageRuns,
+  readCoverageRun,
+  toRunInfo
+} from '../coverage/history.js';
+import { defineTool, ToolError, ToolModule } from '../plugins/types.js';
+import { projectPathProperty } from './analyzeCoverage.js';
+
+/**
+ * Recorded coverage runs of a project, newest first, without their per-file numbers.
+ */
+export async function coverageHistoryImpl(projectRoot: string, options: { limit?: number; includeScoped?: boolean } = {}) {
+  const runs = await listCoverageRuns(projectRoot, { includeScoped: options.includeScoped });
+  return { runs: runs.reverse().slice(0, options.limit).map(toRunInfo) };
+}
+
+/**
+ * Coverage of the whole project, one directory or one file across the recorded runs, oldest first.
+ */
+export async function coverageTrendImpl(
+  projectRoot: string,
+  options: { scope?: 'total' | 'directory' | 'file'; path?: string; branch?: string; limit?: number; includeScoped?: boolean } = {}
+) {
+  const scope = options.scope || 'total';
+  if (scope !== 'total' && !options.path) {
+    throw new ToolError(`path is required for the ${scope} trend`, 400);
+  }
+
+  let runs = await listCoverageRuns(projectRoot, { includeScoped: options.includeScoped });
+  if (options.branch) {
+    runs = runs.filter(run => run.branch === options.branch);
+  }
+  if (options.limit) {
+    runs = runs.slice(-options.limit);
+  }
+
+  return { scope, path: options.path, points: coverageTrend(runs, scope, options.path) };
+}
+
+/**
+ * Percentages that dropped between two recorded runs. Defaults to the two most recent
+ * full-suite runs.
+ */
+export async function coverageRegressionsImpl(
+  projectRoot: string,
+  options: { from?: string; to?: string; tolerance?: number } = {}
+) {
+  const runs = await listCoverageRuns(projectRoot);
+  const to = options.to ? await getRun(projectRoot, options.to) : runs[runs.length - 1];
+  const from = options.from
+    ? await getRun(projectRoot, options.from)
+    : to && runs.filter(run => run.id < to.id).pop();
+
+  if (!from || !to) {
+    throw new ToolError('At least two recorded coverage runs are needed to look for regressions', 404);
+  }
+
+  const regressions = findRegressions(from, to, options.tolerance);
+  return { from: toRunInfo(from), to: toRunInfo(to), regressed: regressions.length > 0, regressions };
+}
+
+async function getRun(projectRoot: string, id: string): Promise<CoverageRun> {
+  const run = await readCoverageRun(projectRoot, id);
+  if (!run) {
+    throw new ToolError(`Coverage run ${id} not found`, 404);
+  }
+  return run;
+}
+
+const runInfoSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    timestamp: { type: 'string' },
+    sha: { type: ['string', 'null'] },
+    branch: { type: ['string', 'null'] },
+    dirty: { type: 'boolean' },
+    source: { type: 'string' },
+    scope: { type: 'object' },
+    total: { type: 'object' }
+  }
+};
+
+const includeScopedProperty = {
+  type: 'boolean',
+  default: false,
+  description: 'Include runs that only covered part of the suite (test file, name, project or changed-files scopes)'
+};
+
+export const coverageHistoryTool = defineTool<{ projectPath: string; limit?: number; includeScoped: boolean }>({
+  name: 'coverage_history',
+  description: 'Lists recorded coverage runs with commit, branch, time and overall percentages, newest first.',
+  http: { method: 'get', path: '/coverage-history' },
+  scope: 'read',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectPath: projectPathProperty,
+      limit: { type: 'integer', minimum: 1, description: 'Maximum number of runs to return' },
+      includeScoped: includeScopedProperty
+    },
+    required: ['projectPath']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: { runs: { type: 'array', items: runInfoSchema } }
+  },
+  handler: ({ projectPath, ...options }) => coverageHistoryImpl(projectPath, options)
+});
+
+export const coverageTrendTool = defineTool<{
+  projectPath: string;
+  scope: 'total' | 'directory' | 'file';
+  path?: string;
+  branch?: string;
+  limit?: number;
+  includeScoped: boolean;
+}>({
+  name: 'coverage_trend',
+  description: 'Coverage percentages of the project, a directory or a file across recorded runs, oldest first.',
+  http: { method: 'get', path: '/coverage-trend' },
+  scope: 'read',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectPath: projectPathProperty,
+      scope: { type: 'string', enum: ['total', 'directory', 'file'], default: 'total' },
+      path: { type: 'string', description: 'Directory or file relative to projectPath, required unless scope is total' },
+      branch: { type: 'string', description: 'Only use runs recorded on this branch' },
+      limit: { type: 'integer', minimum: 1, description: 'Only use the most recent runs' },
+      includeScoped: includeScopedProperty
+    },
+    required: ['projectPath']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      scope: { type: 'string' },
+      path: { type: 'string' },
+      points: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            timestamp: { type: 'string' },
+            sha: { type: ['string', 'null'] },
+            branch: { type: ['string', 'null'] },
+            metrics: { type: ['object', 'null'] }
+          }
+        }
+      }
+    }
+  },
+  handler: ({ projectPath, ...options }) => coverageTrendImpl(projectPath, options)
+});
+
+export const coverageRegressionsTool = defineTool<{ projectPath: string; from?: string; to?: string; tolerance: number }>({
+  name: 'coverage_regressions',
+  description: 'Lists coverage percentages, overall and per directory and file, that dropped between two recorded runs. ' +
+    'Defaults to the two most recent full runs.',
+  http: { method: 'get', path: '/coverage-regressions' },
+  scope: 'read',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectPath: projectPathProperty,
+      from: { type: 'string', description: 'Id of the earlier run' },
+      to: { type: 'string', description: 'Id of the later run, defaults to the latest' },
+      tolerance: { type: 'number', minimum: 0, default: 0, description: 'Ignore drops of at most this many percentage points' }
+    },
+    required: ['projectPath']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      from: runInfoSchema,
+      to: runInfoSchema,
+      regressed: { type: 'boolean' },
+      regressions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            scope: { type: 'string', enum: ['total', 'directory', 'file'] },
+            path: { type: 'string' },
+            metric: { type: 'string' },
+            from: { type: 'number' },
+            to: { type: 'number' },
+            delta: { type: 'number' }
+          }
+        }
+      }
+    }
+  },
+  handler: ({ projectPath, ...options }) => coverageRegressionsImpl(projectPath, options)
+});
+
+// Plugin export
+const plugin: ToolModule = {
+  name: 'coverage-history',
+  tools: [coverageHistoryTool, coverageTrendTool, coverageRegressionsTool],
+};
+
+export default plugin;
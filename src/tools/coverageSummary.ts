@@ -0,0 +1,121 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { CoverageThresholds } from '../config.js';
+import { readCoverageMap } from '../coverage/istanbul.js';
+import { evaluateThresholds, summarizeCoverage } from '../coverage/summary.js';
+import { defineTool, ToolError, ToolModule } from '../plugins/types.js';
+import { getCoverageThresholds } from '../services/projects.js';
+import { assertAllowedPath } from '../services/sandbox.js';
+import { projectPathProperty } from './analyzeCoverage.js';
+
+/**
+ * Computes statement/branch/function/line percentages per file, per directory and overall
+ * from an existing coverage-final.json and evaluates them against the coverage thresholds.
+ */
+export async function summarizeCoverageImpl(
+  projectRoot: string,
+  options: { coveragePath?: string; thresholds?: CoverageThresholds } = {}
+) {
+  const coveragePath = assertAllowedPath(
+    options.coveragePath || path.join(projectRoot, 'coverage', 'coverage-final.json'),
+    'Coverage file'
+  );
+  if (!(await fs.pathExists(coveragePath))) {
+    throw new ToolError(`Coverage file not found at ${coveragePath}. Run coverage analysis first.`, 404);
+  }
+
+  const summary = summarizeCoverage(await readCoverageMap(coveragePath), projectRoot);
+  const thresholds = options.thresholds || getCoverageThresholds(projectRoot);
+
+  return {
+    coveragePath,
+    summary,
+    thresholds,
+    verdict: evaluateThresholds(summary, thresholds)
+  };
+}
+
+const metricsSchema = {
+  type: 'object',
+  properties: {
+    statements: { type: 'object' },
+    branches: { type: 'object' },
+    functions: { type: 'object' },
+    lines: { type: 'object' }
+  }
+};
+
+export const coverageSummaryTool = defineTool<{
+  projectPath: string;
+  coveragePath?: string;
+  thresholds?: CoverageThresholds;
+}>({
+  name: 'coverage_summary',
+  description: 'Summarizes coverage per file, per directory and overall from coverage-final.json and checks it against the configured thresholds.',
+  http: { method: 'post', path: '/coverage-summary' },
+  scope: 'read',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectPath: projectPathProperty,
+      coveragePath: {
+        type: 'string',
+        description: 'coverage-final.json to read. Defaults to <projectPath>/coverage/coverage-final.json'
+      },
+      thresholds: {
+        type: 'object',
+        description: 'Overrides the project\'s coverageThresholds from mcp.config.json. Metric keys are global minimums, other keys are globs, perFile: true checks each file, 100: true sets every minimum to 100. Negative values are the number of uncovered items allowed',
+        additionalProperties: {
+          anyOf: [
+            { type: 'number' },
+            { type: 'boolean' },
+            {
+              type: 'object',
+              properties: {
+                statements: { type: 'number' },
+                branches: { type: 'number' },
+                functions: { type: 'number' },
+                lines: { type: 'number' },
+                100: { type: 'boolean' }
+              },
+              additionalProperties: false
+            }
+          ]
+        }
+      }
+    },
+    required: ['projectPath']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      coveragePath: { type: 'string' },
+      summary: {
+        type: 'object',
+        properties: {
+          total: metricsSchema,
+          directories: { type: 'object', additionalProperties: metricsSchema },
+          files: { type: 'object', additionalProperties: metricsSchema }
+        }
+      },
+      thresholds: { type: 'object' },
+      verdict: {
+        type: 'object',
+        properties: {
+          passed: { type: 'boolean' },
+          failures: { type: 'array', items: { type: 'object' } }
+        }
+      }
+    }
+  },
+  handler: ({ projectPath, coveragePath, thresholds }) =>
+    summarizeCoverageImpl(projectPath, { coveragePath, thresholds })
+});
+
+// Plugin export
+const plugin: ToolModule = {
+  name: 'coverage-summary',
+  tools: [coverageSummaryTool],
+};
+
+export default plugin;
@@ -1,32 +1,30 @@
 import path from 'path';
-import fs from 'fs-extra';
 import glob from 'glob';
+import { defineTool, ToolModule } from '../plugins/types.js';
+import { PlannedWrite, previewChanges, toChangeSetView, writeFiles } from '../services/changeSets.js';
+import { resolveProjectFile } from '../services/sandbox.js';
+import { projectPathProperty } from './analyzeCoverage.js';
+import { changeSetSchema, dryRunProperty } from './changeSets.js';
 
 /**
- * Generates basic Vitest test files for uncovered React components.
- * It creates a __tests__ directory mirroring the source structure and adds
- * a simple render test using @testing-library/react.
+ * Plans basic Vitest test files for uncovered React components.
+ * The tests go to a __tests__ directory mirroring the source structure and add
+ * a simple render test using @testing-library/react. Existing tests are never overwritten.
  */
-export async function generateTestsImpl(projectRoot: string, uncoveredFiles: string[]): Promise<any> {
-  const testPromises = uncoveredFiles.map(async (filePath) => {
-    // Resolve absolute path
-    const absPath = path.isAbsolute(filePath) ? filePath : path.join(projectRoot, filePath);
+export function planGeneratedTests(projectRoot: string, uncoveredFiles: string[]): PlannedWrite[] {
+  // Reject the whole request before planning anything if a file lies outside the project
+  const absPaths = uncoveredFiles.map(filePath => resolveProjectFile(projectRoot, filePath));
+  return absPaths.flatMap((absPath) => {
     const ext = path.extname(absPath);
     if (!['.tsx', '.jsx', '.js', '.ts'].includes(ext)) {
-      return null; // Skip non-JS/TS files
+      return []; // Skip non-JS/TS files
     }
     const relative = path.relative(projectRoot, absPath);
     // Determine component name (file base without extension)
     const componentName = path.basename(absPath, ext);
     // Determine test file location
-    const testDir = path.join(projectRoot, '__tests__', path.dirname(relative));
-    await fs.ensureDir(testDir);
-    const testFile = path.join(testDir, `${componentName}.test${ext}`);
-
-    // If test already exists, skip to avoid overwriting user tests
-    if (await fs.pathExists(testFile)) {
-      return null;
-    }
+    const testDir = resolveProjectFile(projectRoot, path.join('__tests__', path.dirname(relative)));
+    const testFile = resolveProjectFile(projectRoot, path.join(testDir, `${componentName}.test${ext}`));
 
     // Basic test template using React Testing Library
     const importPath = path.relative(testDir, absPath).replace(/\\/g, '/');
@@ -36,37 +34,66 @@ export async function generateTestsImpl(projectRoot: string, uncoveredFiles: str
       `  const { container } = render(<${componentName} />);\n` +
       `  expect(container).toBeTruthy();\n` +
       `});\n`;
-    await fs.writeFile(testFile, template);
-    return testFile;
+    return [{ file: testFile, content: template }];
   });
+}
 
-  const results = await Promise.all(testPromises);
-  return results.filter(Boolean);
+/**
+ * Writes the tests planned by `planGeneratedTests` and returns the created files.
+ */
+export async function generateTestsImpl(projectRoot: string, uncoveredFiles: string[]): Promise<string[]> {
+  const changes = await writeFiles(projectRoot, planGeneratedTests(projectRoot, uncoveredFiles));
+  return changes.map(change => change.file);
 }
 
+export const generateTestsTool = defineTool<{ projectPath: string; uncoveredFiles?: string[]; dryRun: boolean }>({
+  name: 'generate_tests',
+  description: 'Creates basic render tests for uncovered React components. Runs a coverage analysis first when no files are given.',
+  http: { method: 'post', path: '/generate-tests' },
+  scope: 'write',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectPath: projectPathProperty,
+      uncoveredFiles: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Source files to generate tests for, absolute or relative to projectPath'
+      },
+      dryRun: dryRunProperty
+    },
+    required: ['projectPath']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      generatedTestFiles: { type: 'array', items: { type: 'string' } },
+      dryRun: { type: 'boolean' },
+      changeSet: changeSetSchema
+    }
+  },
+  handler: async ({ projectPath, uncoveredFiles, dryRun }) => {
+    let files = uncoveredFiles;
+    if (!files) {
+      // Import the analyzeCoverage tool dynamically
+      const { analyzeCoverageImpl } = await import('./analyzeCoverage.js');
+      const analysis = await analyzeCoverageImpl(projectPath);
+      files = analysis.uncovered.map((u: any) => u.file as string);
+    }
+    // Deduplicate file list
+    const uniqueFiles = Array.from(new Set(files));
+    if (dryRun) {
+      const changeSet = await previewChanges('generate_tests', projectPath, planGeneratedTests(projectPath, uniqueFiles));
+      return { dryRun: true, changeSet: toChangeSetView(changeSet) };
+    }
+    return { generatedTestFiles: await generateTestsImpl(projectPath, uniqueFiles) };
+  }
+});
+
 // Plugin export for dynamic loading
-export default {
+const plugin: ToolModule = {
   name: 'test-generator',
-  router(app: any) {
-    app.post('/generate-tests', async (req: any, res: any) => {
-      const { projectPath, uncoveredFiles } = req.body;
-      if (!projectPath) return res.status(400).json({ error: 'Missing projectPath' });
-      try {
-        let files = uncoveredFiles as string[] | undefined;
-        if (!files) {
-          // Import the analyzeCoverage tool dynamically
-          const { analyzeCoverageImpl } = await import('./analyzeCoverage.js');
-          const analysis = await analyzeCoverageImpl(projectPath);
-          files = analysis.uncovered.map((u: any) => u.file);
-        }
-        // Deduplicate file list
-        const uniqueFiles = Array.from(new Set(files));
-        const generated = await generateTestsImpl(projectPath, uniqueFiles);
-        res.json({ success: true, generatedTestFiles: generated });
-      } catch (e) {
-        console.error(e);
-        res.status(500).json({ success: false, error: (e as any).error || e });
-      }
-    });
-  },
-};
\ No newline at end of file
+  tools: [generateTestsTool],
+};
+
+export default plugin;
\ No newline at end of file
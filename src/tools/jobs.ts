@@ -0,0 +1,185 @@
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { Request, Response } from 'express';
+import { getRegisteredTools, startToolJob } from '../plugins/loader.js';
+import { defineTool, JsonSchema, ToolError, ToolModule } from '../plugins/types.js';
+import { validateInput } from '../plugins/validation.js';
+import { assertToolScope, hasScope, requireScope } from '../services/auth.js';
+import { cancelJob, getJob, isFinished, Job, JobStatus, listJobs, subscribeToJob, toJobSummary } from '../services/jobs.js';
+
+const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'succeeded', 'failed', 'cancelled'];
+
+const jobSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    tool: { type: 'string' },
+    projectRoot: { type: 'string' },
+    clientId: { type: 'string', description: 'Client that started the job' },
+    status: { type: 'string', enum: JOB_STATUSES },
+    createdAt: { type: 'string' },
+    startedAt: { type: 'string' },
+    finishedAt: { type: 'string' },
+    progress: { type: 'string' },
+    events: { type: 'array', items: { type: 'object' } },
+    result: {},
+    error: { type: 'object' }
+  }
+};
+
+/**
+ * Clients only see the jobs they started. Callers without auth info (stdio) see every job.
+ */
+function ownsJob(job: Job, auth: AuthInfo | undefined): boolean {
+  return !auth || job.clientId === auth.clientId;
+}
+
+/**
+ * The job, or a 404 when it does not exist or belongs to another client. `anyClient` skips the
+ * ownership check.
+ */
+function findJob(id: string, auth: AuthInfo | undefined, anyClient = false): Job {
+  const job = getJob(id);
+  if (!job || (!anyClient && !ownsJob(job, auth))) {
+    throw new ToolError(`Job ${id} not found`, 404);
+  }
+  return job;
+}
+
+export const startJobTool = defineTool<{ tool: string; arguments: Record<string, unknown> }>({
+  name: 'start_job',
+  description: 'Starts any tool as a background job and returns its job ID right away. ' +
+    'Jobs on the same project run one at a time.',
+  http: { method: 'post', path: '/jobs' },
+  scope: 'read',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      tool: { type: 'string', description: 'Tool name, e.g. analyze_coverage' },
+      arguments: { type: 'object', default: {}, description: 'Input of the tool' }
+    },
+    required: ['tool']
+  },
+  outputSchema: jobSchema,
+  handler: async ({ tool: name, arguments: args }, { auth }) => {
+    const tool = getRegisteredTools().find(t => t.name === name);
+    if (!tool) {
+      throw new ToolError(`Unknown tool: ${name}`, 404);
+    }
+    // start_job itself only needs read; the job needs the scope of the tool it runs
+    assertToolScope(tool, auth, args);
+    const validation = validateInput(tool.inputSchema, args);
+    if (!validation.valid) {
+      throw new ToolError(`Invalid input for ${name}`, 400, { fields: validation.errors });
+    }
+    return toJobSummary(startToolJob(tool, validation.value, auth));
+  }
+});
+
+export const listJobsTool = defineTool<{ status?: JobStatus; tool?: string; projectPath?: string }>({
+  name: 'list_jobs',
+  description: 'Lists the background jobs started by the calling client, newest first.',
+  http: { method: 'get', path: '/jobs' },
+  scope: 'read',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      status: { type: 'string', enum: JOB_STATUSES },
+      tool: { type: 'string' },
+      projectPath: { type: 'string', description: 'Only jobs running against this project' }
+    }
+  },
+  outputSchema: {
+    type: 'object',
+    properties: { jobs: { type: 'array', items: jobSchema } }
+  },
+  handler: async ({ projectPath, ...filter }, { auth }) => ({
+    jobs: listJobs({ ...filter, projectRoot: projectPath, clientId: auth?.clientId }).map(toJobSummary)
+  })
+});
+
+export const getJobTool = defineTool<{ id: string; includeEvents: boolean }>({
+  name: 'get_job',
+  description: 'Status, latest progress and, once finished, the result or error of a background job.',
+  http: { method: 'get', path: '/jobs/:id' },
+  scope: 'read',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      includeEvents: { type: 'boolean', default: false, description: 'Include the full status and progress log' }
+    },
+    required: ['id']
+  },
+  outputSchema: jobSchema,
+  handler: async ({ id, includeEvents }, { auth }) => {
+    const job = findJob(id, auth);
+    return includeEvents ? job : toJobSummary(job);
+  }
+});
+
+export const cancelJobTool = defineTool<{ id: string }>({
+  name: 'cancel_job',
+  description: 'Cancels a queued job, or stops a running one and kills its test run. ' +
+    'Cancelling a job started by another client needs the write scope.',
+  http: { method: 'delete', path: '/jobs/:id' },
+  scope: 'analyze',
+  inputSchema: {
+    type: 'object',
+    properties: { id: { type: 'string' } },
+    required: ['id']
+  },
+  outputSchema: jobSchema,
+  handler: async ({ id }, { auth }) => {
+    const job = findJob(id, auth, hasScope(auth, 'write'));
+    if (isFinished(job)) {
+      throw new ToolError(`Job ${id} has already finished`, 409, { status: job.status });
+    }
+    return toJobSummary(cancelJob(id)!);
+  }
+});
+
+/**
+ * Server-sent events of a job: the events so far, then live ones, and a final `end` event
+ * with the finished job.
+ */
+export function streamJobEvents(job: Job, req: Request, res: Response) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  const send = (event: object) => res.write(`data: ${JSON.stringify(event)}\n\n`);
+  const end = () => {
+    res.write(`event: end\ndata: ${JSON.stringify(toJobSummary(job))}\n\n`);
+    res.end();
+  };
+
+  job.events.forEach(send);
+  if (isFinished(job)) return end();
+
+  const unsubscribe = subscribeToJob(job.id, (event, updated) => {
+    send(event);
+    if (isFinished(updated)) {
+      unsubscribe();
+      end();
+    }
+  });
+  req.on('close', unsubscribe);
+}
+
+// Plugin export
+const plugin: ToolModule = {
+  name: 'jobs',
+  tools: [startJobTool, listJobsTool, getJobTool, cancelJobTool],
+  router(app) {
+    app.get('/jobs/:id/events', requireScope('read'), (req, res) => {
+      const job = getJob(req.params.id);
+      if (!job || !ownsJob(job, req.auth)) {
+        return res.status(404).json({ success: false, error: `Job ${req.params.id} not found` });
+      }
+      streamJobEvents(job, req, res);
+    });
+  },
+};
+
+export default plugin;
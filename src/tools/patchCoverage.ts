@@ -0,0 +1,127 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { readCoverageMap } from '../coverage/istanbul.js';
+import { computePatchCoverage, parseUnifiedDiff } from '../coverage/patch.js';
+import { defineTool, ToolError, ToolModule } from '../plugins/types.js';
+import { diffRange, git } from '../services/git.js';
+import { assertAllowedPath } from '../services/sandbox.js';
+import { projectPathProperty } from './analyzeCoverage.js';
+
+export interface PatchCoverageOptions {
+  /** Git range (`main...HEAD`) or a single ref compared with the working tree */
+  range?: string;
+  /** Unified diff text; paths relative to the repository root */
+  diff?: string;
+  coveragePath?: string;
+  /** Minimum patch coverage percentage */
+  minimum?: number;
+}
+
+/**
+ * Reports how many of the lines added or modified in a change are covered by tests,
+ * using the statement maps of an existing coverage-final.json.
+ */
+export async function patchCoverageImpl(projectRoot: string, options: PatchCoverageOptions) {
+  if (!options.range === !options.diff) {
+    throw new ToolError('Provide exactly one of range or diff', 400);
+  }
+
+  const coveragePath = assertAllowedPath(
+    options.coveragePath || path.join(projectRoot, 'coverage', 'coverage-final.json'),
+    'Coverage file'
+  );
+  if (!(await fs.pathExists(coveragePath))) {
+    throw new ToolError(`Coverage file not found at ${coveragePath}. Run coverage analysis first.`, 404);
+  }
+
+  let diffText: string;
+  let diffRoot: string;
+  try {
+    if (options.range) {
+      ({ diff: diffText, topLevel: diffRoot } = await diffRange(projectRoot, options.range));
+    } else {
+      diffText = options.diff!;
+      // Diffs from git are relative to the repository root; fall back to the project root outside git
+      diffRoot = (await git(projectRoot, ['rev-parse', '--show-toplevel']).catch(() => projectRoot)).trim();
+    }
+  } catch (e) {
+    throw new ToolError((e as Error).message, 400);
+  }
+
+  const changedLines: Record<string, number[]> = {};
+  for (const [file, lines] of Object.entries(parseUnifiedDiff(diffText))) {
+    changedLines[path.join(diffRoot, file)] = lines;
+  }
+
+  const patch = computePatchCoverage(await readCoverageMap(coveragePath), changedLines, projectRoot);
+  return {
+    coveragePath,
+    ...patch,
+    ...(options.minimum !== undefined && {
+      minimum: options.minimum,
+      passed: patch.total.pct >= options.minimum
+    })
+  };
+}
+
+export const patchCoverageTool = defineTool<{ projectPath: string } & PatchCoverageOptions>({
+  name: 'patch_coverage',
+  description: 'Coverage of only the lines added or modified in a git range or unified diff, per file and overall.',
+  http: { method: 'post', path: '/patch-coverage' },
+  scope: 'read',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectPath: projectPathProperty,
+      range: { type: 'string', description: 'Git range such as main...HEAD, or a ref compared with the working tree' },
+      diff: { type: 'string', description: 'Unified diff text, as an alternative to range' },
+      coveragePath: {
+        type: 'string',
+        description: 'coverage-final.json to read. Defaults to <projectPath>/coverage/coverage-final.json'
+      },
+      minimum: { type: 'number', minimum: 0, maximum: 100, description: 'Fail the verdict below this patch coverage percentage' }
+    },
+    required: ['projectPath']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      coveragePath: { type: 'string' },
+      files: {
+        type: 'object',
+        additionalProperties: {
+          type: 'object',
+          properties: {
+            changedLines: { type: 'array', items: { type: 'number' } },
+            coveredLines: { type: 'array', items: { type: 'number' } },
+            uncoveredLines: { type: 'array', items: { type: 'object' } },
+            coverable: { type: 'number' },
+            covered: { type: 'number' },
+            pct: { type: 'number' }
+          }
+        }
+      },
+      filesWithoutCoverage: { type: 'array', items: { type: 'string' } },
+      total: {
+        type: 'object',
+        properties: {
+          changedLines: { type: 'number' },
+          coverable: { type: 'number' },
+          covered: { type: 'number' },
+          pct: { type: 'number' }
+        }
+      },
+      minimum: { type: 'number' },
+      passed: { type: 'boolean' }
+    }
+  },
+  handler: ({ projectPath, ...options }) => patchCoverageImpl(projectPath, options)
+});
+
+// Plugin export
+const plugin: ToolModule = {
+  name: 'patch-coverage',
+  tools: [patchCoverageTool],
+};
+
+export default plugin;
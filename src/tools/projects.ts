@@ -0,0 +1,121 @@
+import { CoverageThresholds, getConfig, PackageManager, saveConfigFile } from '../config.js';
+import { defineTool, JsonSchema, ToolError, ToolModule } from '../plugins/types.js';
+import { getProject, listProjects, PACKAGE_MANAGERS, Project, removeProject, saveProject } from '../services/projects.js';
+
+const projectSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    root: { type: 'string' },
+    packageManager: { type: 'string', enum: PACKAGE_MANAGERS },
+    vitestConfig: { type: 'string' },
+    coverageThresholds: { type: 'object' },
+    default: { type: 'boolean' }
+  }
+};
+
+function withDefaultFlag(project: Project) {
+  return { ...project, default: getConfig().defaultProject === project.id };
+}
+
+function findProject(id: string): Project {
+  const project = getProject(id);
+  if (!project) {
+    throw new ToolError(`Project ${id} not found`, 404);
+  }
+  return project;
+}
+
+export const listProjectsTool = defineTool({
+  name: 'list_projects',
+  description: 'Lists the registered projects. Any tool taking projectPath also accepts the ID of one of them as projectId.',
+  http: { method: 'get', path: '/projects' },
+  scope: 'read',
+  inputSchema: { type: 'object', properties: {} },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      projects: { type: 'array', items: projectSchema },
+      defaultProject: { type: 'string' }
+    }
+  },
+  handler: async () => ({
+    projects: listProjects().map(withDefaultFlag),
+    defaultProject: getConfig().defaultProject
+  })
+});
+
+export const getProjectTool = defineTool<{ id: string }>({
+  name: 'get_project',
+  description: 'Root, package manager, Vitest config and coverage thresholds of a registered project.',
+  http: { method: 'get', path: '/projects/:id' },
+  scope: 'read',
+  inputSchema: {
+    type: 'object',
+    properties: { id: { type: 'string' } },
+    required: ['id']
+  },
+  outputSchema: projectSchema,
+  handler: async ({ id }) => withDefaultFlag(findProject(id))
+});
+
+export const saveProjectTool = defineTool<{
+  id: string;
+  root: string;
+  packageManager?: PackageManager;
+  vitestConfig?: string;
+  coverageThresholds?: CoverageThresholds;
+  default: boolean;
+}>({
+  name: 'save_project',
+  description: 'Registers a project under an ID, or replaces the registered one, and saves it to mcp.config.json.',
+  http: { method: 'post', path: '/projects' },
+  scope: 'write',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      id: { type: 'string', description: 'Letters, digits, dots, dashes and underscores' },
+      root: { type: 'string', description: 'Absolute path to the project root' },
+      packageManager: { type: 'string', enum: PACKAGE_MANAGERS, description: 'Detected from the lockfile when omitted' },
+      vitestConfig: { type: 'string', description: 'Vitest config file relative to the root; Vitest finds its own when omitted' },
+      coverageThresholds: {
+        type: 'object',
+        description: 'Overrides the server-wide coverageThresholds. Metric keys are global minimums, other keys are globs'
+      },
+      default: { type: 'boolean', default: false, description: 'Use this project when a tool gets neither projectPath nor projectId' }
+    },
+    required: ['id', 'root']
+  },
+  outputSchema: projectSchema,
+  handler: async ({ id, default: isDefault, ...config }) => {
+    const project = await saveProject(id, config);
+    if (isDefault) await saveConfigFile({ defaultProject: id });
+    return withDefaultFlag(project);
+  }
+});
+
+export const removeProjectTool = defineTool<{ id: string }>({
+  name: 'remove_project',
+  description: 'Removes a project from the registry. Its files are left alone.',
+  http: { method: 'delete', path: '/projects/:id' },
+  scope: 'write',
+  inputSchema: {
+    type: 'object',
+    properties: { id: { type: 'string' } },
+    required: ['id']
+  },
+  outputSchema: projectSchema,
+  handler: async ({ id }) => {
+    const project = withDefaultFlag(findProject(id));
+    await removeProject(id);
+    return project;
+  }
+});
+
+// Plugin export
+const plugin: ToolModule = {
+  name: 'projects',
+  tools: [listProjectsTool, getProjectTool, saveProjectTool, removeProjectTool],
+};
+
+export default plugin;
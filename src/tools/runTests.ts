@@ -0,0 +1,184 @@
+import path from 'path';
+import { readCoverageMap } from '../coverage/istanbul.js';
+import { CoverageMetrics, summarizeCoverage } from '../coverage/summary.js';
+import { getRegisteredTools, startToolJob } from '../plugins/loader.js';
+import { defineTool, ToolError, ToolModule } from '../plugins/types.js';
+import { validateInput } from '../plugins/validation.js';
+import type { RunFinishedEvent, StreamEvent, TestEvent } from '../reporters/streamReporter.js';
+import { requireScope } from '../services/auth.js';
+import { COVERAGE_ARGS, recordCoverageHistory, streamVitest, wasWrittenSince } from '../services/vitest.js';
+import { buildScopeArgs, CoverageRunScope, isFullRun, projectPathProperty } from './analyzeCoverage.js';
+import { streamJobEvents } from './jobs.js';
+
+export type RunTestsEvent = StreamEvent | { type: 'coverage'; coveragePath: string; total: CoverageMetrics };
+
+export interface RunTestsOptions extends CoverageRunScope {
+  /** Collect coverage and report its totals once the run is over */
+  coverage?: boolean;
+  /** Stop after this many failed tests */
+  bail?: number;
+  /** Also write Vitest's JSON report to this file */
+  jsonReportFile?: string;
+  signal?: AbortSignal;
+  onEvent?: (event: RunTestsEvent) => void;
+}
+
+/**
+ * Runs Vitest with the streaming reporter, passing every file/test event to `onEvent` as it
+ * happens, and returns the totals and failures of the run.
+ */
+export async function runTestsImpl(projectRoot: string, options: RunTestsOptions = {}) {
+  const { args, changedFiles } = await buildScopeArgs(projectRoot, options);
+  const emptyRun = { exitCode: 0, passed: 0, failed: 0, skipped: 0, duration: 0, failures: [], errors: [] };
+  if (changedFiles && changedFiles.length === 0) {
+    return emptyRun;
+  }
+
+  const runArgs = ['run', ...args];
+  if (options.coverage) runArgs.push(...COVERAGE_ARGS);
+  if (options.bail) runArgs.push(`--bail=${options.bail}`);
+  if (options.jsonReportFile) runArgs.push('--reporter=json', `--outputFile.json=${options.jsonReportFile}`);
+
+  const failures: TestEvent[] = [];
+  // Assigned from the event callback
+  let finished = undefined as RunFinishedEvent | undefined;
+  const startedAt = Date.now();
+
+  const { exitCode, stderr } = await streamVitest(projectRoot, runArgs, {
+    signal: options.signal,
+    onEvent: event => {
+      if (event.type === 'test-failed') failures.push(event);
+      if (event.type === 'run-finished') finished = event;
+      options.onEvent?.(event);
+    }
+  });
+
+  if (!finished) {
+    throw { error: `Vitest exited with code ${exitCode} before finishing the run`, stderr };
+  }
+
+  let coverage: { coveragePath: string; total: CoverageMetrics } | undefined;
+  const coveragePath = path.join(projectRoot, 'coverage', 'coverage-final.json');
+  if (options.coverage && await wasWrittenSince(coveragePath, startedAt)) {
+    const coverageMap = await readCoverageMap(coveragePath);
+    coverage = { coveragePath, total: summarizeCoverage(coverageMap, projectRoot).total };
+    options.onEvent?.({ type: 'coverage', ...coverage });
+    const { testFiles, testNamePattern, project, changedSince } = options;
+    await recordCoverageHistory(projectRoot, coverageMap, 'run_tests', {
+      scope: isFullRun(options) ? undefined : { testFiles, testNamePattern, project, changedSince }
+    });
+  }
+
+  const { type, ...totals } = finished;
+  return { exitCode, ...totals, failures: failures.map(({ type, ...failure }) => failure), ...(coverage && { coverage }) };
+}
+
+/**
+ * One-line description of an event for job progress.
+ */
+function describeEvent(event: RunTestsEvent): string {
+  switch (event.type) {
+    case 'run-started':
+      return `Running ${event.files.length} test files`;
+    case 'file-started':
+      return `Running ${event.file}`;
+    case 'file-finished':
+      return `${event.state === 'pass' ? 'Passed' : 'Failed'} ${event.file}`;
+    case 'test-passed':
+    case 'test-failed':
+    case 'test-skipped': {
+      const mark = event.type === 'test-passed' ? '✓' : event.type === 'test-failed' ? '✗' : '↓';
+      const duration = event.duration !== undefined ? ` (${Math.round(event.duration)}ms)` : '';
+      return `${mark} ${event.file} > ${event.fullName}${duration}`;
+    }
+    case 'run-finished':
+      return `${event.passed} passed, ${event.failed} failed, ${event.skipped} skipped`;
+    case 'coverage':
+      return `Coverage: ${event.total.statements.pct}% statements, ${event.total.branches.pct}% branches`;
+  }
+}
+
+export const runTestsTool = defineTool<{ projectPath: string; coverage: boolean; bail?: number } & CoverageRunScope>({
+  name: 'run_tests',
+  description: 'Runs Vitest and reports every file and test result as a progress event while it runs ' +
+    '(stream them from /jobs/:id/events or /run-tests/stream). Can be scoped like analyze_coverage.',
+  http: { method: 'post', path: '/run-tests' },
+  background: true,
+  scope: 'analyze',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectPath: projectPathProperty,
+      testFiles: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Globs of test files to run, relative to projectPath'
+      },
+      testNamePattern: { type: 'string', description: 'Only run tests whose name matches this pattern (vitest -t)' },
+      project: { type: 'string', description: 'Vitest workspace project to run' },
+      changedSince: { type: 'string', description: 'Git ref; only runs tests related to files changed since it' },
+      coverage: { type: 'boolean', default: false, description: 'Collect coverage and report its totals at the end' },
+      bail: { type: 'integer', minimum: 1, description: 'Stop the run after this many failed tests' }
+    },
+    required: ['projectPath']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      exitCode: { type: ['number', 'null'] },
+      passed: { type: 'number' },
+      failed: { type: 'number' },
+      skipped: { type: 'number' },
+      duration: { type: 'number' },
+      failures: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            file: { type: 'string' },
+            name: { type: 'string' },
+            fullName: { type: 'string' },
+            duration: { type: 'number' },
+            error: { type: 'object' }
+          }
+        }
+      },
+      errors: { type: 'array', items: { type: 'string' } },
+      coverage: {
+        type: 'object',
+        properties: { coveragePath: { type: 'string' }, total: { type: 'object' } }
+      }
+    }
+  },
+  handler: ({ projectPath, ...options }, { signal, progress }) =>
+    runTestsImpl(projectPath, {
+      ...options,
+      signal,
+      onEvent: event => progress(describeEvent(event), { ...event })
+    })
+});
+
+// Plugin export
+const plugin: ToolModule = {
+  name: 'test-runner',
+  tools: [runTestsTool],
+  router(app) {
+    // Starts a run and streams its events in one request: GET /run-tests/stream?projectPath=...
+    app.get('/run-tests/stream', requireScope('analyze'), (req, res) => {
+      // The registered tool also takes projectId
+      const tool = getRegisteredTools().find(t => t.name === runTestsTool.name) || runTestsTool;
+      const validation = validateInput(tool.inputSchema, req.query, { coerceTypes: true });
+      if (!validation.valid) {
+        return res.status(400).json({ success: false, error: 'Invalid input for run_tests', fields: validation.errors });
+      }
+      try {
+        streamJobEvents(startToolJob(tool, validation.value, req.auth), req, res);
+      } catch (e) {
+        if (!(e instanceof ToolError)) throw e;
+        res.status(e.statusCode).json({ success: false, error: e.message, ...e.details });
+      }
+    });
+  },
+};
+
+export default plugin;
@@ -1,57 +1,210 @@
 import fs from 'fs-extra';
 import path from 'path';
-import { exec } from 'child_process';
+import { defineTool, ToolModule } from '../plugins/types.js';
+import { PlannedWrite, previewChanges, runCommand, toChangeSetView, writeFiles } from '../services/changeSets.js';
+import { addDevDependenciesCommand, findProjectByRoot, getCoverageThresholds } from '../services/projects.js';
+import { resolveProjectFile } from '../services/sandbox.js';
+import { CoverageProvider, createTestConfig, mergeTestConfig, TestConfigDefaults, TestConfigPatch } from '../services/viteConfig.js';
+import { projectPathProperty } from './analyzeCoverage.js';
+import { changeSetSchema, dryRunProperty } from './changeSets.js';
+
+const CONFIG_EXTENSIONS = ['.ts', '.mts', '.cts', '.js', '.mjs', '.cjs'];
+const SCRIPTS: Record<string, string> = { test: 'vitest', coverage: 'vitest run --coverage' };
+// Written by `npm init`; replaced like a missing script
+const NPM_INIT_TEST_SCRIPT = /no test specified/;
+
+export interface SetupChange {
+  /** Relative to the project root */
+  file: string;
+  action: 'create' | 'update';
+  details: string[];
+}
+
+export interface SetupPlan {
+  writes: PlannedWrite[];
+  /** Install command, when packages are missing */
+  commands: string[];
+  changes: SetupChange[];
+  /** Packages the install command adds */
+  packages: string[];
+  warnings: string[];
+}
 
 /**
- * Installs Vitest, React Testing Library and creates a basic vitest.config.ts if missing.
+ * Plans the Vitest setup of a project. The `test` block is merged into the project's Vitest config,
+ * else into its Vite config, else written to a new vitest.config.ts. The coverage provider, jsdom,
+ * jest-dom and React Testing Library are installed when missing, and `test`/`coverage` scripts added.
  */
-export async function setupVitestImpl(projectRoot: string): Promise<any> {
-  const vitestConfigPath = path.join(projectRoot, 'vitest.config.ts');
-
-  // Ensure vitest config exists
-  if (!(await fs.pathExists(vitestConfigPath))) {
-    const defaultConfig = `import { defineConfig } from 'vitest/config';\n` +
-      `import react from '@vitejs/plugin-react';\n\n` +
-      `export default defineConfig({\n  plugins: [react()],\n  test: {\n    globals: true,\n    environment: 'jsdom',\n    setupFiles: './src/setupTests.ts',\n    coverage: {\n      provider: 'c8',\n      reporter: ['text','json','html'],\n      all: true,\n      statements: 100,\n      branches: 100,\n      functions: 100,\n      lines: 100\n    }\n  }\n});`;
-    await fs.writeFile(vitestConfigPath, defaultConfig);
+export async function planSetupVitest(projectRoot: string, options: { coverageProvider?: CoverageProvider } = {}): Promise<SetupPlan> {
+  const plan: SetupPlan = { writes: [], commands: [], changes: [], packages: [], warnings: [] };
+  const packageJsonPath = resolveProjectFile(projectRoot, 'package.json');
+  const packageJsonSource = await fs.readFile(packageJsonPath, 'utf-8').catch(() => null);
+  const packageJson = packageJsonSource ? JSON.parse(packageJsonSource) : null;
+  const declared: Record<string, string> = { ...packageJson?.dependencies, ...packageJson?.devDependencies };
+
+  const existingSetupFile = ['src/setupTests.ts', 'src/setupTests.js'].find(file => fs.existsSync(path.join(projectRoot, file)));
+  const setupFile = existingSetupFile || 'src/setupTests.ts';
+  const defaults: TestConfigDefaults = {
+    globals: true,
+    environment: 'jsdom',
+    setupFiles: `./${setupFile}`,
+    coverage: {
+      provider: options.coverageProvider || 'v8',
+      reporter: ['text', 'json', 'html'],
+      thresholds: getCoverageThresholds(projectRoot)
+    }
+  };
+
+  // Vitest reads vitest.config.* over vite.config.*
+  const registered = findProjectByRoot(projectRoot)?.vitestConfig;
+  const candidates = registered
+    ? [registered]
+    : ['vitest.config', 'vite.config'].flatMap(base => CONFIG_EXTENSIONS.map(ext => base + ext));
+  const configFile = candidates.find(file => fs.existsSync(resolveProjectFile(projectRoot, file)));
+
+  let patch: Pick<TestConfigPatch, 'environment' | 'provider' | 'addedSetupFiles'>;
+  if (configFile) {
+    const configPath = resolveProjectFile(projectRoot, configFile);
+    const merged = mergeTestConfig(await fs.readFile(configPath, 'utf-8'), configPath, defaults, {
+      replaceProvider: Boolean(options.coverageProvider),
+      // Vitest 2 moved the types that add `test` to Vite's config
+      typesReference: majorVersion(declared.vitest) < 2 ? 'vitest' : 'vitest/config'
+    });
+    plan.warnings.push(...merged.warnings);
+    if (merged.changes.length) {
+      plan.writes.push({ file: configPath, content: merged.content, overwrite: true });
+      plan.changes.push({ file: configFile, action: 'update', details: merged.changes });
+    }
+    patch = merged;
+  } else {
+    plan.writes.push({ file: resolveProjectFile(projectRoot, 'vitest.config.ts'), content: createTestConfig(defaults) });
+    plan.changes.push({ file: 'vitest.config.ts', action: 'create', details: ['Vitest config with the React plugin and a test block'] });
+    patch = { environment: defaults.environment, provider: defaults.coverage.provider, addedSetupFiles: true };
   }
 
-  // Ensure src/setupTests.ts exists (basic version)
-  const setupPath = path.join(projectRoot, 'src', 'setupTests.ts');
-  if (!(await fs.pathExists(setupPath))) {
-    await fs.ensureDir(path.dirname(setupPath));
-    await fs.writeFile(setupPath, "import '@testing-library/jest-dom';\n");
+  if (patch.addedSetupFiles && !existingSetupFile) {
+    plan.writes.push({ file: resolveProjectFile(projectRoot, setupFile), content: "import '@testing-library/jest-dom/vitest';\n" });
+    plan.changes.push({ file: setupFile, action: 'create', details: ['Registers the jest-dom matchers with Vitest'] });
   }
 
-  // Install required dev dependencies via npm (or yarn if present)
-  const pkgLock = path.join(projectRoot, 'package-lock.json');
-  const useYarn = await fs.pathExists(path.join(projectRoot, 'yarn.lock'));
-  const installCmd = useYarn
-    ? 'yarn add -D vitest @testing-library/react @vitejs/plugin-react'
-    : 'npm install --save-dev vitest @testing-library/react @vitejs/plugin-react';
-
-  return new Promise((resolve, reject) => {
-    exec(installCmd, { cwd: projectRoot }, (err, stdout, stderr) => {
-      if (err) return reject({ error: err.message, stderr });
-      resolve({ message: 'Vitest setup complete', stdout });
-    });
-  });
+  if (packageJson) {
+    const scripts: Record<string, string> = { ...packageJson.scripts };
+    const added = Object.keys(SCRIPTS).filter(name => !scripts[name] || (name === 'test' && NPM_INIT_TEST_SCRIPT.test(scripts.test)));
+    if (added.length) {
+      added.forEach(name => (scripts[name] = SCRIPTS[name]));
+      packageJson.scripts = scripts;
+      const indent = /^[ \t]+(?=")/m.exec(packageJsonSource!)?.[0] || '  ';
+      const trailingNewline = packageJsonSource!.endsWith('\n') ? '\n' : '';
+      plan.writes.push({ file: packageJsonPath, content: JSON.stringify(packageJson, null, indent) + trailingNewline, overwrite: true });
+      plan.changes.push({ file: 'package.json', action: 'update', details: added.map(name => `Set the ${name} script to "${SCRIPTS[name]}"`) });
+    }
+  } else {
+    plan.warnings.push('No package.json in the project; the test and coverage scripts were not added');
+  }
+
+  // The coverage provider has to match the Vitest version
+  const provider = patch.provider === 'v8' || patch.provider === 'istanbul' ? patch.provider : defaults.coverage.provider;
+  const providerPackage = `@vitest/coverage-${provider}`;
+  const required = [
+    'vitest',
+    providerPackage,
+    '@testing-library/react',
+    '@testing-library/jest-dom',
+    ...(patch.environment === 'jsdom' || patch.environment === 'happy-dom' ? [patch.environment] : []),
+    ...(configFile ? [] : ['@vitejs/plugin-react'])
+  ];
+  plan.packages = required
+    .filter(name => !declared[name])
+    .map(name => (name === providerPackage && /^[~^]?\d+(\.\d+){0,2}$/.test(declared.vitest || '') ? `${name}@${declared.vitest}` : name));
+  if (plan.packages.length) {
+    plan.commands.push(addDevDependenciesCommand(projectRoot, plan.packages));
+  }
+  return plan;
+}
+
+/**
+ * Sets up Vitest as planned by `planSetupVitest` and reports what changed.
+ */
+export async function setupVitestImpl(projectRoot: string, options: { coverageProvider?: CoverageProvider } = {}): Promise<any> {
+  const { writes, commands, changes, packages, warnings } = await planSetupVitest(projectRoot, options);
+  await writeFiles(projectRoot, writes);
+
+  let stdout = '';
+  for (const command of commands) {
+    stdout += await runCommand(command, projectRoot);
+  }
+  const message = changes.length || packages.length ? 'Vitest setup complete' : 'Vitest was already set up';
+  return { message, stdout, changes, packages, warnings };
 }
 
+function majorVersion(range: string | undefined): number {
+  const match = range && /\d+/.exec(range);
+  return match ? Number(match[0]) : Infinity;
+}
+
+const setupChangeSchema = {
+  type: 'object',
+  properties: {
+    file: { type: 'string' },
+    action: { type: 'string', enum: ['create', 'update'] },
+    details: { type: 'array', items: { type: 'string' } }
+  }
+};
+
+export const setupVitestTool = defineTool<{ projectPath: string; coverageProvider?: CoverageProvider; dryRun: boolean }>({
+  name: 'setup_vitest',
+  description: 'Sets up Vitest with coverage: merges a test block into the existing Vitest or Vite config (or writes vitest.config.ts), ' +
+    'installs the coverage provider, jsdom, jest-dom and React Testing Library, and adds test and coverage scripts. ' +
+    'Reports every change. With dryRun, previews the files and the install command.',
+  http: { method: 'post', path: '/setup-vitest' },
+  scope: 'write',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectPath: projectPathProperty,
+      coverageProvider: {
+        type: 'string',
+        enum: ['v8', 'istanbul'],
+        description: 'Replaces the provider of an existing config. Defaults to the configured provider, else v8'
+      },
+      dryRun: dryRunProperty
+    },
+    required: ['projectPath']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      result: {
+        type: 'object',
+        properties: {
+          message: { type: 'string' },
+          stdout: { type: 'string' },
+          changes: { type: 'array', items: setupChangeSchema },
+          packages: { type: 'array', items: { type: 'string' } },
+          warnings: { type: 'array', items: { type: 'string' } }
+        }
+      },
+      dryRun: { type: 'boolean' },
+      changeSet: changeSetSchema,
+      changes: { type: 'array', items: setupChangeSchema },
+      packages: { type: 'array', items: { type: 'string' } },
+      warnings: { type: 'array', items: { type: 'string' } }
+    }
+  },
+  handler: async ({ projectPath, coverageProvider, dryRun }) => {
+    if (dryRun) {
+      const { writes, commands, changes, packages, warnings } = await planSetupVitest(projectPath, { coverageProvider });
+      const changeSet = await previewChanges('setup_vitest', projectPath, writes, commands);
+      return { dryRun: true, changeSet: toChangeSetView(changeSet), changes, packages, warnings };
+    }
+    return { result: await setupVitestImpl(projectPath, { coverageProvider }) };
+  }
+});
+
 // Plugin export for dynamic loading
-export default {
+const plugin: ToolModule = {
   name: 'vitest-setup',
-  router(app: any) {
-    app.post('/setup-vitest', async (req: any, res: any) => {
-      const { projectPath } = req.body;
-      if (!projectPath) return res.status(400).json({ error: 'Missing projectPath' });
-      try {
-        const result = await setupVitestImpl(projectPath);
-        res.json({ success: true, result });
-      } catch (e) {
-        console.error(e);
-        res.status(500).json({ success: false, error: (e as any).error || e });
-      }
-    });
-  },
-};
\ No newline at end of file
+  tools: [setupVitestTool],
+};
+
+export default plugin;
\ No newline at end of file
@@ -1,15 +1,19 @@
-import { execSync } from 'child_process';
 import fs from 'fs-extra';
-import path from 'path';
+import { defineTool, ToolError, ToolModule } from '../plugins/types.js';
+import { requireScope } from '../services/auth.js';
+import { defaultProjectRoot, resolveProjectRoot } from '../services/projects.js';
+import { resolveProjectFile } from '../services/sandbox.js';
+import { runVitest } from '../services/vitest.js';
+import { projectRootProperty } from './analyzeCoverage.js';
 
 /**
  * Profiles test execution and identifies slow tests
  */
-export async function profileTests(): Promise<any> {
-  const outFile = path.join(process.cwd(), 'coverage', 'test-profile.json');
+export async function profileTests(projectRoot: string, options: { signal?: AbortSignal } = {}): Promise<any> {
+  const outFile = resolveProjectFile(projectRoot, 'coverage/test-profile.json');
   
   // Run vitest with JSON reporter to get detailed timing information
-  execSync(`npx vitest run --reporter=json --outputFile=${outFile}`, { stdio: 'inherit' });
+  await runVitest(projectRoot, ['run', '--reporter=json', `--outputFile=${outFile}`], options);
   
   const data = await fs.readJSON(outFile);
   
@@ -117,35 +121,38 @@ function generateRecommendations(tests: any[], threshold: number) {
   return recommendations;
 }
 
+export const profileTestsTool = defineTool<{ projectPath?: string }>({
+  name: 'profile_tests',
+  description: 'Runs the test suite and reports the slowest tests with optimization recommendations.',
+  http: { method: 'get', path: '/profile-tests' },
+  background: true,
+  scope: 'analyze',
+  inputSchema: { type: 'object', properties: { projectPath: projectRootProperty } },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      summary: { type: 'object' },
+      slowestTests: { type: 'array' },
+      slowTests: { type: 'array' },
+      suites: { type: 'array' },
+      recommendations: { type: 'array' }
+    }
+  },
+  handler: ({ projectPath }, { signal, progress }) => {
+    progress('Running the test suite with timings');
+    return profileTests(projectPath ?? defaultProjectRoot(), { signal });
+  }
+});
+
 // Plugin export
-export default {
+const plugin: ToolModule = {
   name: 'test-profiler',
-  router(app: any) {
-    app.get('/profile-tests', async (_req: any, res: any) => {
-      try {
-        const profile = await profileTests();
-        
-        if (profile.success) {
-          res.json(profile);
-        } else {
-          res.status(500).json({ 
-            success: false, 
-            error: 'Failed to profile tests' 
-          });
-        }
-      } catch (e) {
-        console.error('Test profiling error:', e);
-        res.status(500).json({ 
-          success: false, 
-          error: (e as any).message || 'Failed to profile tests' 
-        });
-      }
-    });
-
+  tools: [profileTestsTool],
+  router(app) {
     // Endpoint for detailed test analysis
-    app.get('/test-analysis', async (_req: any, res: any) => {
+    app.get('/test-analysis', requireScope('analyze'), async (req, res) => {
       try {
-        const profile = await profileTests();
+        const profile = await profileTests(resolveProjectRoot(req.query as Record<string, string>));
         
         // Generate a detailed analysis report
         const analysis = {
@@ -157,6 +164,9 @@ export default {
         res.json(analysis);
       } catch (e) {
         console.error('Test analysis error:', e);
+        if (e instanceof ToolError) {
+          return res.status(e.statusCode).json({ success: false, error: e.message, ...e.details });
+        }
         res.status(500).json({ 
           success: false, 
           error: (e as any).message || 'Failed to analyze tests' 
@@ -166,6 +176,8 @@ export default {
   },
 };
 
+export default plugin;
+
 function generateDetailedReport(profile: any) {
   const { summary, slowestTests, recommendations } = profile;
   
@@ -0,0 +1,205 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { defineTool, ToolModule } from '../plugins/types.js';
+import { CoverageRunScope } from './analyzeCoverage.js';
+import { ANSI_ESCAPE, JsonReport } from '../services/vitest.js';
+import { runTestsImpl, runTestsTool } from './runTests.js';
+
+export interface StackFrame {
+  /** Relative to the project root */
+  file: string;
+  line: number;
+  column: number;
+  function?: string;
+}
+
+export interface TestFailure {
+  /** Test file, relative to the project root */
+  file: string;
+  name: string;
+  /** Suite names and the test name joined with ` > ` */
+  fullName: string;
+  duration?: number;
+  message: string;
+  expected?: unknown;
+  actual?: unknown;
+  diff?: string;
+  /** Where the test failed in the test file */
+  location?: { line: number; column: number };
+  /** Frames in project files, innermost first */
+  stack: StackFrame[];
+}
+
+export interface TestResultsOptions extends CoverageRunScope {
+  coverage?: boolean;
+  bail?: number;
+  signal?: AbortSignal;
+}
+
+const STACK_LINE = /^\s*at (?:(.+?) \()?(.+?):(\d+):(\d+)\)?$/;
+
+/**
+ * Runs Vitest and returns why each failed test failed: assertion message, expected/actual diff and
+ * the stack frames in project files. Coverage is still reported when some tests fail.
+ */
+export async function testResultsImpl(projectRoot: string, options: TestResultsOptions = {}) {
+  const root = path.resolve(projectRoot);
+  const jsonReportFile = path.join(os.tmpdir(), `vitest-mcp-results-${randomUUID()}.json`);
+
+  try {
+    // The JSON report lists every file and test; the streamed events carry the full assertion errors it leaves out
+    const run = await runTestsImpl(root, { ...options, jsonReportFile });
+    const report: JsonReport | null = await fs.readJson(jsonReportFile).catch(() => null);
+    const errorsByTest = new Map(run.failures.map(failure => [`${failure.file}\u0000${failure.fullName}`, failure.error]));
+
+    const failures: TestFailure[] = [];
+    const fileErrors: Array<{ file: string; message: string }> = [];
+    for (const fileResult of report?.testResults || []) {
+      const file = path.relative(root, fileResult.name);
+      if (fileResult.message) {
+        fileErrors.push({ file, message: fileResult.message.replace(ANSI_ESCAPE, '') });
+      }
+
+      for (const test of fileResult.assertionResults) {
+        if (test.status !== 'failed') continue;
+        // The file's own suite has an empty title
+        const fullName = [...test.ancestorTitles.filter(Boolean), test.title].join(' > ');
+        const error = errorsByTest.get(`${file}\u0000${fullName}`);
+        failures.push({
+          file,
+          name: test.title,
+          fullName,
+          duration: test.duration,
+          message: (error?.message || test.failureMessages[0] || '').replace(ANSI_ESCAPE, ''),
+          ...(error?.expected !== undefined && { expected: error.expected }),
+          ...(error?.actual !== undefined && { actual: error.actual }),
+          ...(error?.diff && { diff: error.diff.replace(ANSI_ESCAPE, '') }),
+          location: test.location,
+          stack: parseStackFrames(error?.stack || '', root)
+        });
+      }
+    }
+
+    return {
+      success: run.exitCode === 0 && failures.length === 0 && fileErrors.length === 0,
+      exitCode: run.exitCode,
+      passed: run.passed,
+      failed: run.failed,
+      skipped: run.skipped,
+      duration: run.duration,
+      failures,
+      fileErrors,
+      errors: run.errors,
+      ...('coverage' in run && { coverage: run.coverage })
+    };
+  } finally {
+    await fs.remove(jsonReportFile).catch(() => {});
+  }
+}
+
+/**
+ * Frames of a V8 stack trace that point into project files, leaving out node_modules and Node internals.
+ * Vitest runs test and source files through vite-node with source maps installed, so the positions
+ * already refer to the original sources.
+ */
+export function parseStackFrames(stack: string, projectRoot: string): StackFrame[] {
+  const frames: StackFrame[] = [];
+  for (const line of stack.split('\n')) {
+    const match = STACK_LINE.exec(line);
+    if (!match) continue;
+
+    let file = match[2].replace(/\?.*$/, '');
+    if (file.startsWith('file://')) file = fileURLToPath(file);
+    const relative = path.relative(projectRoot, file);
+    if (!path.isAbsolute(file) || relative.startsWith('..') || relative.split(path.sep).includes('node_modules')) continue;
+
+    frames.push({
+      file: relative,
+      line: Number(match[3]),
+      column: Number(match[4]),
+      ...(match[1] && { function: match[1].replace(/^async /, '') })
+    });
+  }
+  return frames;
+}
+
+const stackFrameSchema = {
+  type: 'object',
+  properties: {
+    file: { type: 'string' },
+    line: { type: 'number' },
+    column: { type: 'number' },
+    function: { type: 'string' }
+  }
+};
+
+export const testResultsTool = defineTool<{ projectPath: string; coverage: boolean; bail?: number } & CoverageRunScope>({
+  name: 'test_results',
+  description: 'Runs Vitest and returns each failed test with its assertion message, expected/actual diff and ' +
+    'source-mapped stack frames in project files, plus files that failed to load. Coverage totals are ' +
+    'returned even when tests fail. Can be scoped like analyze_coverage.',
+  http: { method: 'post', path: '/test-results' },
+  background: true,
+  scope: 'analyze',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...runTestsTool.inputSchema.properties,
+      coverage: { type: 'boolean', default: true, description: 'Collect coverage and report its totals' }
+    },
+    required: ['projectPath']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      exitCode: { type: ['number', 'null'] },
+      passed: { type: 'number' },
+      failed: { type: 'number' },
+      skipped: { type: 'number' },
+      duration: { type: 'number' },
+      failures: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            file: { type: 'string' },
+            name: { type: 'string' },
+            fullName: { type: 'string' },
+            duration: { type: 'number' },
+            message: { type: 'string' },
+            expected: {},
+            actual: {},
+            diff: { type: 'string' },
+            location: { type: 'object', properties: { line: { type: 'number' }, column: { type: 'number' } } },
+            stack: { type: 'array', items: stackFrameSchema }
+          }
+        }
+      },
+      fileErrors: {
+        type: 'array',
+        items: { type: 'object', properties: { file: { type: 'string' }, message: { type: 'string' } } }
+      },
+      errors: { type: 'array', items: { type: 'string' } },
+      coverage: {
+        type: 'object',
+        properties: { coveragePath: { type: 'string' }, total: { type: 'object' } }
+      }
+    }
+  },
+  handler: async ({ projectPath, ...options }, { signal, progress }) => {
+    progress('Running Vitest');
+    return testResultsImpl(projectPath, { ...options, signal });
+  }
+});
+
+// Plugin export
+const plugin: ToolModule = {
+  name: 'test-results',
+  tools: [testResultsTool],
+};
+
+export default plugin;
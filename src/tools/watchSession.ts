@@ -0,0 +1,185 @@
+import path from 'path';
+import { defineTool, JsonSchema, ToolError, ToolModule } from '../plugins/types.js';
+import {
+  DEFAULT_IDLE_TIMEOUT,
+  getWatchSession,
+  listWatchSessions,
+  runInWatchSession,
+  startWatchSession,
+  stopWatchSession
+} from '../services/watchSessions.js';
+import { projectPathProperty } from './analyzeCoverage.js';
+import { parseStackFrames } from './testResults.js';
+
+/**
+ * Reruns tests in the project's watch session. Failures get the same stack frames as test_results.
+ */
+export async function rerunWatchSessionImpl(
+  projectRoot: string,
+  options: { files?: string[]; testNamePattern?: string; signal?: AbortSignal } = {}
+) {
+  const root = path.resolve(projectRoot);
+  const result = await runInWatchSession(root, options);
+  if (!result) {
+    throw new ToolError(`No watch session for ${root}; start one with start_watch_session`, 404);
+  }
+
+  return {
+    ...result,
+    failures: result.failures.map(({ error, ...failure }) => ({
+      ...failure,
+      message: error?.message || '',
+      ...(error?.expected !== undefined && { expected: error.expected }),
+      ...(error?.actual !== undefined && { actual: error.actual }),
+      ...(error?.diff && { diff: error.diff }),
+      stack: parseStackFrames(error?.stack || '', root)
+    }))
+  };
+}
+
+const metricsSchema = { type: 'object', description: 'lines, statements, functions and branches with total, covered and pct' };
+
+const runResultSchema = {
+  type: 'object',
+  properties: {
+    trigger: { type: 'string', enum: ['request', 'watch'] },
+    files: { type: 'array', items: { type: 'string' } },
+    passed: { type: 'number' },
+    failed: { type: 'number' },
+    skipped: { type: 'number' },
+    duration: { type: 'number' },
+    failures: { type: 'array', items: { type: 'object' } },
+    fileErrors: { type: 'array', items: { type: 'object' } },
+    errors: { type: 'array', items: { type: 'string' } },
+    finishedAt: { type: 'string' }
+  }
+};
+
+const sessionSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    projectRoot: { type: 'string' },
+    status: { type: 'string', enum: ['starting', 'ready', 'running', 'stopped'] },
+    coverage: { type: 'boolean' },
+    idleTimeout: { type: 'number' },
+    startedAt: { type: 'string' },
+    lastActivityAt: { type: 'string' },
+    expiresAt: { type: 'string' },
+    testFiles: { type: 'array', items: { type: 'string' } },
+    lastRun: runResultSchema,
+    stopReason: { type: 'string' }
+  }
+};
+
+export const startWatchSessionTool = defineTool<{ projectPath: string; coverage: boolean; idleTimeout: number }>({
+  name: 'start_watch_session',
+  description: 'Starts a long-lived Vitest instance in watch mode for a project, so later runs skip the cold start. ' +
+    'Returns the running session if there is one. The session stops after idleTimeout seconds without a start or run request.',
+  http: { method: 'post', path: '/watch-sessions' },
+  scope: 'analyze',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectPath: projectPathProperty,
+      coverage: { type: 'boolean', default: true, description: 'Report coverage of the files each run loads' },
+      idleTimeout: {
+        type: 'integer',
+        minimum: 10,
+        default: DEFAULT_IDLE_TIMEOUT,
+        description: 'Seconds without a start or run request before the session is stopped'
+      }
+    },
+    required: ['projectPath']
+  },
+  outputSchema: sessionSchema,
+  handler: ({ projectPath, ...options }, { progress }) => {
+    progress('Starting Vitest in watch mode');
+    return startWatchSession(projectPath, options);
+  }
+});
+
+export const watchSessionStatusTool = defineTool<{ projectPath?: string }>({
+  name: 'watch_session_status',
+  description: 'Status, test files and latest run of the watch sessions, or of one project\'s session.',
+  http: { method: 'get', path: '/watch-sessions' },
+  scope: 'read',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectPath: { type: 'string', description: 'Only the session of this project' }
+    }
+  },
+  outputSchema: {
+    type: 'object',
+    properties: { sessions: { type: 'array', items: sessionSchema } }
+  },
+  handler: async ({ projectPath }) => {
+    if (!projectPath) return { sessions: listWatchSessions() };
+    const session = getWatchSession(projectPath);
+    return { sessions: session ? [session] : [] };
+  }
+});
+
+export const rerunWatchSessionTool = defineTool<{ projectPath: string; files?: string[]; testNamePattern?: string }>({
+  name: 'rerun_watch_session',
+  description: 'Reruns test files in the project\'s watch session and returns the results and failures, with the ' +
+    'coverage of only the files those tests load.',
+  http: { method: 'post', path: '/watch-sessions/run' },
+  scope: 'analyze',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectPath: projectPathProperty,
+      files: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Test files or globs relative to projectPath; all test files when omitted'
+      },
+      testNamePattern: { type: 'string', description: 'Only run tests whose name matches this pattern' }
+    },
+    required: ['projectPath']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      ...runResultSchema.properties,
+      coverage: {
+        type: 'object',
+        properties: {
+          coveragePath: { type: 'string' },
+          total: metricsSchema,
+          files: { type: 'object', additionalProperties: metricsSchema }
+        }
+      }
+    }
+  },
+  handler: ({ projectPath, ...options }, { signal }) => rerunWatchSessionImpl(projectPath, { ...options, signal })
+});
+
+export const stopWatchSessionTool = defineTool<{ projectPath: string }>({
+  name: 'stop_watch_session',
+  description: 'Stops the project\'s watch session and its Vitest processes.',
+  http: { method: 'delete', path: '/watch-sessions' },
+  scope: 'analyze',
+  inputSchema: {
+    type: 'object',
+    properties: { projectPath: projectPathProperty },
+    required: ['projectPath']
+  },
+  outputSchema: sessionSchema,
+  handler: async ({ projectPath }) => {
+    const session = await stopWatchSession(projectPath);
+    if (!session) {
+      throw new ToolError(`No watch session for ${path.resolve(projectPath)}`, 404);
+    }
+    return session;
+  }
+});
+
+// Plugin export
+const plugin: ToolModule = {
+  name: 'watch-session',
+  tools: [startWatchSessionTool, watchSessionStatusTool, rerunWatchSessionTool, stopWatchSessionTool],
+};
+
+export default plugin;
@@ -1,13 +1,17 @@
 import fs from 'fs-extra';
 import path from 'path';
+import { defineTool, ToolError, ToolModule } from '../plugins/types.js';
+import { requireScope } from '../services/auth.js';
+import { PlannedWrite, previewChanges, toChangeSetView, writeFiles } from '../services/changeSets.js';
+import { defaultProjectRoot, resolveProjectRoot } from '../services/projects.js';
+import { resolveProjectFile } from '../services/sandbox.js';
+import { projectRootProperty } from './analyzeCoverage.js';
+import { changeSetSchema, dryRunProperty } from './changeSets.js';
 
 /**
- * Generates GitHub Actions workflow for CI/CD
+ * GitHub Actions workflow for CI/CD. Replaces an existing .github/workflows/vitest-coverage.yml
  */
-export async function generateGitHubWorkflow(projectName = 'react-vite-app'): Promise<string> {
-  const workflowDir = path.join(process.cwd(), '.github', 'workflows');
-  await fs.ensureDir(workflowDir);
-  
+export function planGitHubWorkflow(projectRoot: string, projectName = 'react-vite-app'): PlannedWrite {
   const workflow = `name: Vitest Coverage CI
 
 on:
@@ -58,17 +62,24 @@ jobs:
           minimum_coverage: 100
           fail_below_threshold: true`;
 
-  const workflowPath = path.join(workflowDir, 'vitest-coverage.yml');
-  await fs.writeFile(workflowPath, workflow.trim());
-  
-  return workflowPath;
+  const workflowPath = resolveProjectFile(projectRoot, '.github/workflows/vitest-coverage.yml');
+  return { file: workflowPath, content: workflow.trim(), overwrite: true };
 }
 
 /**
- * Generates GitLab CI configuration
+ * Generates GitHub Actions workflow for CI/CD
  */
-export async function generateGitLabWorkflow(projectName = 'react-vite-app'): Promise<string> {
-  const gitlabDir = path.join(process.cwd(), '.gitlab-ci.yml');
+export async function generateGitHubWorkflow(projectRoot: string, projectName = 'react-vite-app'): Promise<string> {
+  const write = planGitHubWorkflow(projectRoot, projectName);
+  await writeFiles(projectRoot, [write]);
+  return write.file;
+}
+
+/**
+ * GitLab CI configuration. Replaces an existing .gitlab-ci.yml
+ */
+export function planGitLabWorkflow(projectRoot: string, projectName = 'react-vite-app'): PlannedWrite {
+  const gitlabDir = resolveProjectFile(projectRoot, '.gitlab-ci.yml');
   
   const config = `stages:
   - install
@@ -118,22 +129,46 @@ coverage:
         coverage_format: cobertura
         path: coverage/coverage-final.xml`;
 
-  await fs.writeFile(gitlabDir, config.trim());
-  
-  return gitlabDir;
+  return { file: gitlabDir, content: config.trim(), overwrite: true };
+}
+
+/**
+ * Generates GitLab CI configuration
+ */
+export async function generateGitLabWorkflow(projectRoot: string, projectName = 'react-vite-app'): Promise<string> {
+  const write = planGitLabWorkflow(projectRoot, projectName);
+  await writeFiles(projectRoot, [write]);
+  return write.file;
 }
 
 /**
  * Generates comprehensive CI configuration based on platform
  */
-export async function generateCIConfig(platform: 'github' | 'gitlab' = 'github', projectName?: string): Promise<any> {
+export async function generateCIConfig(
+  projectRoot: string,
+  platform: 'github' | 'gitlab' = 'github',
+  projectName?: string,
+  dryRun = false
+): Promise<any> {
   try {
     let configPath: string;
     
-    if (platform === 'github') {
-      configPath = await generateGitHubWorkflow(projectName);
+    if (dryRun) {
+      // Preview only: the config file is written once the change set is applied
+      const plan = platform === 'github' ? planGitHubWorkflow : platform === 'gitlab' ? planGitLabWorkflow : undefined;
+      if (!plan) throw new Error('Unsupported platform. Use "github" or "gitlab".');
+      const changeSet = await previewChanges('generate_ci_config', projectRoot, [plan(projectRoot, projectName)]);
+      return {
+        success: true,
+        dryRun: true,
+        changeSet: toChangeSetView(changeSet),
+        readmeSection: generateCIReadme(platform, projectName),
+        message: `Previewed ${platform} CI configuration`
+      };
+    } else if (platform === 'github') {
+      configPath = await generateGitHubWorkflow(projectRoot, projectName);
     } else if (platform === 'gitlab') {
-      configPath = await generateGitLabWorkflow(projectName);
+      configPath = await generateGitLabWorkflow(projectRoot, projectName);
     } else {
       throw new Error('Unsupported platform. Use "github" or "gitlab".');
     }
@@ -149,6 +184,7 @@ export async function generateCIConfig(platform: 'github' | 'gitlab' = 'github',
     };
     
   } catch (error) {
+    if (error instanceof ToolError) throw error;
     return {
       success: false,
       error: (error as any).message || 'Failed to generate CI configuration'
@@ -208,41 +244,66 @@ Add this badge to your README:
   }
 }
 
+export const generateCIConfigTool = defineTool<{ projectPath?: string; platform: 'github' | 'gitlab'; projectName?: string; dryRun: boolean }>({
+  name: 'generate_ci_config',
+  description: 'Writes a GitHub Actions or GitLab CI configuration that runs Vitest with coverage, replacing an existing one. ' +
+    'Use dryRun to see the diff first.',
+  http: { method: 'post', path: '/generate-workflow' },
+  scope: 'write',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectPath: projectRootProperty,
+      platform: { type: 'string', enum: ['github', 'gitlab'], default: 'github' },
+      projectName: { type: 'string' },
+      dryRun: dryRunProperty
+    }
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      configPath: { type: 'string' },
+      readmeSection: { type: 'string' },
+      instructions: { type: 'string' },
+      message: { type: 'string' },
+      dryRun: { type: 'boolean' },
+      changeSet: changeSetSchema
+    }
+  },
+  handler: async ({ projectPath, platform, projectName, dryRun }) => {
+    const result = await generateCIConfig(projectPath ?? defaultProjectRoot(), platform, projectName, dryRun);
+    if (!result.success) {
+      throw new ToolError(result.error, 400);
+    }
+    return { ...result, instructions: result.readmeSection };
+  }
+});
+
 // Plugin export
-export default {
+const plugin: ToolModule = {
   name: 'ci-generator',
-  router(app: any) {
-    app.post('/generate-workflow', async (req: any, res: any) => {
-      const { platform = 'github', projectName } = req.body;
+  tools: [generateCIConfigTool],
+  router(app) {
+    // Generate both GitHub and GitLab configurations
+    app.post('/generate-all-workflows', requireScope('write'), async (req, res) => {
+      const { projectName, dryRun } = req.body;
       
       try {
-        const result = await generateCIConfig(platform, projectName);
-        
-        if (result.success) {
-          res.json({
+        const projectRoot = resolveProjectRoot(req.body);
+        if (dryRun) {
+          // One change set for both files, applied together
+          const writes = [planGitHubWorkflow(projectRoot, projectName), planGitLabWorkflow(projectRoot, projectName)];
+          const changeSet = await previewChanges('generate_ci_config', projectRoot, writes);
+          return res.json({
             success: true,
-            ...result,
-            instructions: result.readmeSection
+            dryRun: true,
+            changeSet: toChangeSetView(changeSet),
+            github: { instructions: generateCIReadme('github', projectName) },
+            gitlab: { instructions: generateCIReadme('gitlab', projectName) }
           });
-        } else {
-          res.status(400).json(result);
         }
-      } catch (e) {
-        console.error('Workflow generation error:', e);
-        res.status(500).json({ 
-          success: false, 
-          error: (e as any).message || 'Failed to generate workflow' 
-        });
-      }
-    });
-
-    // Generate both GitHub and GitLab configurations
-    app.post('/generate-all-workflows', async (req: any, res: any) => {
-      const { projectName } = req.body;
-      
-      try {
-        const githubResult = await generateCIConfig('github', projectName);
-        const gitlabResult = await generateCIConfig('gitlab', projectName);
+        const githubResult = await generateCIConfig(projectRoot, 'github', projectName);
+        const gitlabResult = await generateCIConfig(projectRoot, 'gitlab', projectName);
         
         res.json({
           success: true,
@@ -256,6 +317,9 @@ export default {
           }
         });
       } catch (e) {
+        if (e instanceof ToolError) {
+          return res.status(e.statusCode).json({ success: false, error: e.message, ...e.details });
+        }
         console.error('Multi-workflow generation error:', e);
         res.status(500).json({ 
           success: false, 
@@ -265,10 +329,17 @@ export default {
     });
 
     // Health check for CI generation
-    app.get('/ci-health', async (_req: any, res: any) => {
+    app.get('/ci-health', requireScope('read'), async (req, res) => {
+      let projectRoot: string;
+      try {
+        projectRoot = resolveProjectRoot(req.query as Record<string, string>);
+      } catch (e) {
+        const { statusCode, message } = e as ToolError;
+        return res.status(statusCode).json({ success: false, error: message });
+      }
       const checks = {
-        githubActions: await checkGitHubSetup(),
-        gitlabCI: await checkGitLabSetup()
+        githubActions: await checkGitHubSetup(projectRoot),
+        gitlabCI: await checkGitLabSetup(projectRoot)
       };
       
       res.json({
@@ -280,16 +351,18 @@ export default {
   },
 };
 
-async function checkGitHubSetup() {
-  const workflowPath = path.join(process.cwd(), '.github', 'workflows');
+export default plugin;
+
+async function checkGitHubSetup(projectRoot: string) {
+  const workflowPath = path.join(projectRoot, '.github', 'workflows');
   return {
     available: await fs.pathExists(workflowPath),
     workflowsDir: workflowPath
   };
 }
 
-async function checkGitLabSetup() {
-  const gitlabConfig = path.join(process.cwd(), '.gitlab-ci.yml');
+async function checkGitLabSetup(projectRoot: string) {
+  const gitlabConfig = path.join(projectRoot, '.gitlab-ci.yml');
   return {
     available: await fs.pathExists(gitlabConfig),
     configFile: gitlabConfig
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { computeCoverageDiff } from '../../src/coverage/diff.js';
+import type { CoverageMap, FileCoverage } from '../../src/coverage/istanbul.js';
+
+const ROOT = '/project';
+
+/** Coverage of a file with one statement per line, `hits[i]` being the count of line i + 1 */
+function fileCoverage(file: string, hits: number[]): FileCoverage {
+  const statementMap: FileCoverage['statementMap'] = {};
+  const s: FileCoverage['s'] = {};
+  hits.forEach((count, i) => {
+    statementMap[i] = { start: { line: i + 1, column: 0 }, end: { line: i + 1, column: 10 } };
+    s[i] = count;
+  });
+  return { path: file, statementMap, fnMap: {}, branchMap: {}, s, f: {}, b: {} };
+}
+
+function coverageMap(files: Record<string, number[]>): CoverageMap {
+  return Object.fromEntries(
+    Object.entries(files).map(([file, hits]) => [`${ROOT}/${file}`, fileCoverage(`${ROOT}/${file}`, hits)])
+  );
+}
+
+describe('computeCoverageDiff', () => {
+  it('compares files present on both sides', () => {
+    const diff = computeCoverageDiff(coverageMap({ 'src/a.ts': [1, 0, 0, 0] }), coverageMap({ 'src/a.ts': [1, 1, 1, 0] }), ROOT);
+
+    expect(diff.files['src/a.ts'].status).toBe('existing');
+    expect(diff.files['src/a.ts'].statements).toEqual({
+      base: { total: 4, covered: 1, pct: 25 },
+      current: { total: 4, covered: 3, pct: 75 },
+      delta: 50
+    });
+    expect(diff.total.lines.delta).toBe(50);
+  });
+
+  it('reports new files without a delta and counts them in the current total', () => {
+    const diff = computeCoverageDiff(
+      coverageMap({ 'src/a.ts': [1, 1] }),
+      coverageMap({ 'src/a.ts': [1, 1], 'src/new.ts': [0, 0] }),
+      ROOT
+    );
+
+    expect(diff.files['src/new.ts'].status).toBe('added');
+    expect(diff.files['src/new.ts'].statements).toEqual({ base: null, current: { total: 2, covered: 0, pct: 0 }, delta: null });
+    expect(diff.total.statements.current).toEqual({ total: 4, covered: 2, pct: 50 });
+    expect(diff.total.statements.delta).toBe(-50);
+  });
+
+  it('reports deleted files without a delta and leaves them out of the current total', () => {
+    const diff = computeCoverageDiff(
+      coverageMap({ 'src/a.ts': [1, 1], 'src/old.ts': [0, 0] }),
+      coverageMap({ 'src/a.ts': [1, 1] }),
+      ROOT
+    );
+
+    expect(diff.files['src/old.ts'].status).toBe('deleted');
+    expect(diff.files['src/old.ts'].lines).toEqual({ base: { total: 2, covered: 0, pct: 0 }, current: null, delta: null });
+    expect(diff.total.lines).toMatchObject({ base: { pct: 50 }, current: { pct: 100 } });
+  });
+
+  it('matches renamed files with their previous path', () => {
+    const diff = computeCoverageDiff(
+      coverageMap({ 'src/old.ts': [1, 0] }),
+      coverageMap({ 'src/new.ts': [1, 1] }),
+      ROOT,
+      [{ from: 'src/old.ts', to: `${ROOT}/src/new.ts` }]
+    );
+
+    expect(Object.keys(diff.files)).toEqual(['src/new.ts']);
+    expect(diff.files['src/new.ts']).toMatchObject({ status: 'renamed', previousPath: 'src/old.ts' });
+    expect(diff.files['src/new.ts'].statements.delta).toBe(50);
+  });
+
+  it('ignores renames whose target also exists on the base side', () => {
+    const diff = computeCoverageDiff(
+      coverageMap({ 'src/old.ts': [0], 'src/new.ts': [0] }),
+      coverageMap({ 'src/new.ts': [1] }),
+      ROOT,
+      [{ from: 'src/old.ts', to: 'src/new.ts' }]
+    );
+
+    expect(diff.files['src/new.ts'].status).toBe('existing');
+    expect(diff.files['src/old.ts'].status).toBe('deleted');
+  });
+
+  it('counts files without statements as fully covered', () => {
+    const diff = computeCoverageDiff(coverageMap({ 'src/types.ts': [] }), coverageMap({ 'src/types.ts': [] }), ROOT);
+
+    expect(diff.files['src/types.ts'].statements).toEqual({
+      base: { total: 0, covered: 0, pct: 100 },
+      current: { total: 0, covered: 0, pct: 100 },
+      delta: 0
+    });
+    expect(diff.total.branches).toEqual({
+      base: { total: 0, covered: 0, pct: 100 },
+      current: { total: 0, covered: 0, pct: 100 },
+      delta: 0
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { parseUnifiedDiff } from '../../src/coverage/patch.js';
+
+describe('parseUnifiedDiff', () => {
+  it('returns added lines in the new file, skipping removed ones', () => {
+    const diff = [
+      'diff --git a/src/a.ts b/src/a.ts',
+      'index 1111111..2222222 100644',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -1,4 +1,5 @@',
+      ' const a = 1;',
+      '-const b = 2;',
+      '+const b = 3;',
+      '+const c = 4;',
+      ' const d = 5;',
+      '@@ -20,2 +21,3 @@ function f() {',
+      ' return a;',
+      '+return b;',
+      ' }'
+    ].join('\n');
+
+    expect(parseUnifiedDiff(diff)).toEqual({ 'src/a.ts': [2, 3, 22] });
+  });
+
+  it('returns every line of a new file', () => {
+    const diff = [
+      'diff --git a/src/new.ts b/src/new.ts',
+      'new file mode 100644',
+      'index 0000000..3333333',
+      '--- /dev/null',
+      '+++ b/src/new.ts',
+      '@@ -0,0 +1,3 @@',
+      '+export const a = 1;',
+      '+',
+      '+export const b = 2;'
+    ].join('\n');
+
+    expect(parseUnifiedDiff(diff)).toEqual({ 'src/new.ts': [1, 2, 3] });
+  });
+
+  it('skips deleted files', () => {
+    const diff = [
+      'diff --git a/src/old.ts b/src/old.ts',
+      'deleted file mode 100644',
+      'index 4444444..0000000',
+      '--- a/src/old.ts',
+      '+++ /dev/null',
+      '@@ -1,2 +0,0 @@',
+      '-export const a = 1;',
+      '-export const b = 2;',
+      'diff --git a/src/a.ts b/src/a.ts',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -1 +1 @@',
+      '-const a = 1;',
+      '+const a = 2;'
+    ].join('\n');
+
+    expect(parseUnifiedDiff(diff)).toEqual({ 'src/a.ts': [1] });
+  });
+
+  it('keys renamed files by their new path and leaves out pure renames', () => {
+    const diff = [
+      'diff --git a/src/old.ts b/src/new.ts',
+      'similarity index 90%',
+      'rename from src/old.ts',
+      'rename to src/new.ts',
+      'index 5555555..6666666 100644',
+      '--- a/src/old.ts',
+      '+++ b/src/new.ts',
+      '@@ -1,2 +1,2 @@',
+      ' const a = 1;',
+      '-const b = 2;',
+      '+const b = 3;',
+      'diff --git a/src/moved.ts b/lib/moved.ts',
+      'similarity index 100%',
+      'rename from src/moved.ts',
+      'rename to lib/moved.ts'
+    ].join('\n');
+
+    expect(parseUnifiedDiff(diff)).toEqual({ 'src/new.ts': [2] });
+  });
+
+  it('does not count "No newline at end of file" markers as lines', () => {
+    const diff = [
+      'diff --git a/src/a.ts b/src/a.ts',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -1,2 +1,3 @@',
+      ' const a = 1;',
+      '-const b = 2;',
+      '\\ No newline at end of file',
+      '+const b = 3;',
+      '+const c = 4;',
+      '\\ No newline at end of file'
+    ].join('\n');
+
+    expect(parseUnifiedDiff(diff)).toEqual({ 'src/a.ts': [2, 3] });
+  });
+
+  it('reads paths without a b/ prefix and with CRLF line endings', () => {
+    const diff = ['--- src/a.ts\t2024-01-01', '+++ src/a.ts\t2024-01-02', '@@ -1 +1,2 @@', ' a', '+b'].join('\r\n');
+
+    expect(parseUnifiedDiff(diff)).toEqual({ 'src/a.ts': [2] });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { CoverageMetrics, CoverageSummary, evaluateThresholds, mergeMetrics } from '../../src/coverage/summary.js';
+
+/** Metrics with `covered` of `total` statements and lines, and nothing else to cover */
+function metrics(covered: number, total: number): CoverageMetrics {
+  const metric = { covered, total, pct: total === 0 ? 100 : Math.round((covered / total) * 10000) / 100 };
+  const empty = { covered: 0, total: 0, pct: 100 };
+  return { statements: metric, lines: metric, branches: empty, functions: empty };
+}
+
+function summary(files: Record<string, CoverageMetrics>): CoverageSummary {
+  return { total: mergeMetrics(Object.values(files)), directories: {}, files };
+}
+
+describe('evaluateThresholds', () => {
+  it('checks global thresholds against the total only', () => {
+    const coverage = summary({ 'src/a.ts': metrics(5, 10), 'src/b.ts': metrics(10, 10) });
+
+    expect(evaluateThresholds(coverage, { statements: 75 })).toEqual({ passed: true, failures: [] });
+    expect(evaluateThresholds(coverage, { statements: 80, lines: 70 })).toEqual({
+      passed: false,
+      failures: [{ scope: 'total', metric: 'statements', threshold: 80, actual: 75 }]
+    });
+  });
+
+  it('checks every file with perFile', () => {
+    const coverage = summary({ 'src/a.ts': metrics(5, 10), 'src/b.ts': metrics(10, 10) });
+
+    expect(evaluateThresholds(coverage, { statements: 75, perFile: true })).toEqual({
+      passed: false,
+      failures: [{ scope: 'file', file: 'src/a.ts', metric: 'statements', threshold: 75, actual: 50 }]
+    });
+  });
+
+  it('checks globs against the files they match and globals against the rest', () => {
+    const coverage = summary({
+      'src/a.ts': metrics(9, 10),
+      'src/utils/x.ts': metrics(1, 2),
+      'src/utils/y.ts': metrics(2, 2)
+    });
+
+    expect(evaluateThresholds(coverage, { statements: 90, 'src/utils/**': { statements: 75 } }).passed).toBe(true);
+    expect(evaluateThresholds(coverage, { statements: 90, 'src/utils/**': { statements: 80 } }).failures).toEqual([
+      { scope: 'glob', glob: 'src/utils/**', metric: 'statements', threshold: 80, actual: 75 }
+    ]);
+  });
+
+  it('checks files matched by a glob against its thresholds with perFile', () => {
+    const coverage = summary({ 'src/a.ts': metrics(1, 2), 'src/utils/x.ts': metrics(1, 2) });
+
+    expect(evaluateThresholds(coverage, { statements: 10, perFile: true, 'src/utils/**': { statements: 60 } }).failures).toEqual([
+      { scope: 'file', file: 'src/utils/x.ts', glob: 'src/utils/**', metric: 'statements', threshold: 60, actual: 50 }
+    ]);
+  });
+
+  it('passes files without statements', () => {
+    const coverage = summary({ 'src/types.ts': metrics(0, 0) });
+
+    expect(evaluateThresholds(coverage, { statements: 100, branches: 100, perFile: true })).toEqual({ passed: true, failures: [] });
+    expect(evaluateThresholds(coverage, { statements: 100, branches: 100 })).toEqual({ passed: true, failures: [] });
+  });
+
+  it('treats negative thresholds as the number of uncovered items allowed', () => {
+    const coverage = summary({ 'src/a.ts': metrics(5, 10), 'src/utils/x.ts': metrics(1, 4) });
+
+    expect(evaluateThresholds(coverage, { statements: -5, 'src/utils/**': { lines: -3 } }).passed).toBe(true);
+    expect(evaluateThresholds(coverage, { statements: -4, 'src/utils/**': { lines: -2 } }).failures).toEqual([
+      { scope: 'total', metric: 'statements', threshold: -4, actual: 5 },
+      { scope: 'glob', glob: 'src/utils/**', metric: 'lines', threshold: -2, actual: 3 }
+    ]);
+  });
+
+  it('sets every metric to 100 with 100: true, globally and per glob', () => {
+    const coverage = summary({ 'src/a.ts': metrics(9, 10), 'src/utils/x.ts': metrics(1, 2) });
+
+    expect(evaluateThresholds(coverage, { 100: true, statements: 50 }).failures).toEqual([
+      { scope: 'total', metric: 'statements', threshold: 100, actual: 83.33 },
+      { scope: 'total', metric: 'lines', threshold: 100, actual: 83.33 }
+    ]);
+    expect(evaluateThresholds(coverage, { 'src/utils/**': { 100: true } }).failures).toEqual([
+      { scope: 'glob', glob: 'src/utils/**', metric: 'statements', threshold: 100, actual: 50 },
+      { scope: 'glob', glob: 'src/utils/**', metric: 'lines', threshold: 100, actual: 50 }
+    ]);
+  });
+
+  it('passes a glob that matches no files', () => {
+    const coverage = summary({ 'src/a.ts': metrics(1, 1) });
+
+    expect(evaluateThresholds(coverage, { 'lib/**': { lines: 100 } })).toEqual({ passed: true, failures: [] });
+  });
+});
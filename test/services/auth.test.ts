@@ -0,0 +1,244 @@
+import { EventEmitter } from 'events';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import type { Request, Response } from 'express';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AuthConfig, getConfig } from '../../src/config.js';
+import { ToolDefinition, ToolError } from '../../src/plugins/types.js';
+import {
+  assertToolScope,
+  auditCall,
+  AuditEntry,
+  authenticate,
+  hasScope,
+  requireScope,
+  toolScope,
+  verifyToken
+} from '../../src/services/auth.js';
+
+let tmp: string;
+let auditLog: string;
+let saved: AuthConfig | undefined;
+
+const tokens: AuthConfig['tokens'] = [
+  { client: 'dashboard', token: 'read-token', scopes: ['read'] },
+  { client: 'ci', tokenEnvVar: 'AUTH_TEST_CI_TOKEN', scopes: ['read', 'analyze'] },
+  { client: 'admin', token: 'admin-token', scopes: ['read', 'analyze', 'write'] }
+];
+
+function tool(scope?: ToolDefinition['scope']): ToolDefinition {
+  return { name: 'some_tool', description: '', inputSchema: { type: 'object', properties: {} }, scope, handler: async () => ({}) };
+}
+
+function request(authorization?: string, auth?: Request['auth']): Request {
+  return { method: 'POST', path: '/write', auth, header: (name: string) => (name === 'authorization' ? authorization : undefined) } as unknown as Request;
+}
+
+function thrown(fn: () => unknown): unknown {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  return undefined;
+}
+
+/** A response that records its status, headers and body and emits `finish` on end */
+function response() {
+  const res = Object.assign(new EventEmitter(), {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: undefined as unknown,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      res.emit('finish');
+      return res;
+    },
+    setHeader(name: string, value: string) {
+      res.headers[name] = value;
+    }
+  });
+  return res;
+}
+
+async function readAuditLog(count: number): Promise<AuditEntry[]> {
+  return vi.waitFor(async () => {
+    const lines = (await fs.readFile(auditLog, 'utf8')).trim().split('\n');
+    expect(lines).toHaveLength(count);
+    return lines.map(line => JSON.parse(line));
+  });
+}
+
+beforeAll(() => {
+  tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-test-'));
+  auditLog = path.join(tmp, 'logs/audit.log');
+  saved = getConfig().auth;
+  process.env.AUTH_TEST_CI_TOKEN = 'ci-token';
+});
+
+beforeEach(() => {
+  getConfig().auth = { tokens, auditLog };
+  fs.removeSync(auditLog);
+});
+
+afterAll(() => {
+  getConfig().auth = saved;
+  delete process.env.AUTH_TEST_CI_TOKEN;
+  fs.removeSync(tmp);
+});
+
+describe('verifyToken', () => {
+  it('returns the client and scopes of a known token', () => {
+    expect(verifyToken('read-token')).toEqual({ token: 'read-token', clientId: 'dashboard', scopes: ['read'] });
+    expect(verifyToken('ci-token')).toMatchObject({ clientId: 'ci', scopes: ['read', 'analyze'] });
+  });
+
+  it('rejects unknown tokens and tokens whose environment variable is unset', () => {
+    expect(verifyToken('wrong')).toBeUndefined();
+    expect(verifyToken('')).toBeUndefined();
+
+    delete process.env.AUTH_TEST_CI_TOKEN;
+    expect(verifyToken('ci-token')).toBeUndefined();
+    process.env.AUTH_TEST_CI_TOKEN = 'ci-token';
+  });
+});
+
+describe('authenticate', () => {
+  it('answers 401 without a token or with a wrong one', () => {
+    for (const [authorization, error] of [
+      [undefined, 'Missing bearer token'],
+      ['Basic cmVhZC10b2tlbg==', 'Missing bearer token'],
+      ['Bearer wrong', 'Invalid bearer token']
+    ]) {
+      const res = response();
+      const next = vi.fn();
+      authenticate(request(authorization), res as unknown as Response, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(401);
+      expect(res.headers['WWW-Authenticate']).toBe('Bearer');
+      expect(res.body).toEqual({ success: false, error });
+    }
+  });
+
+  it('sets the client of a valid token', () => {
+    const req = request('bearer read-token');
+    const next = vi.fn();
+    authenticate(req, response() as unknown as Response, next);
+
+    expect(next).toHaveBeenCalledOnce();
+    expect(req.auth).toMatchObject({ clientId: 'dashboard', scopes: ['read'] });
+  });
+
+  it('lets every request in as an anonymous client with all scopes without tokens', () => {
+    getConfig().auth = { tokens: [] };
+    const req = request();
+    const next = vi.fn();
+    authenticate(req, response() as unknown as Response, next);
+
+    expect(next).toHaveBeenCalledOnce();
+    expect(req.auth).toMatchObject({ clientId: 'anonymous', scopes: ['read', 'analyze', 'write'] });
+  });
+});
+
+describe('hasScope', () => {
+  it('needs the exact scope, since scopes do not include each other', () => {
+    const ci = verifyToken('ci-token');
+
+    expect(hasScope(ci, 'read')).toBe(true);
+    expect(hasScope(ci, 'analyze')).toBe(true);
+    expect(hasScope(ci, 'write')).toBe(false);
+    expect(hasScope({ token: '', clientId: 'x', scopes: ['write'] }, 'read')).toBe(false);
+  });
+
+  it('allows everything to callers without auth info', () => {
+    expect(hasScope(undefined, 'write')).toBe(true);
+  });
+});
+
+describe('assertToolScope', () => {
+  it('treats tools without a scope as write tools', () => {
+    expect(toolScope(tool())).toBe('write');
+    expect(toolScope(tool('read'))).toBe('read');
+  });
+
+  it('allows clients with the scope of the tool', () => {
+    expect(() => assertToolScope(tool('analyze'), verifyToken('ci-token'))).not.toThrow();
+    expect(() => assertToolScope(tool(), verifyToken('admin-token'))).not.toThrow();
+    expect(() => assertToolScope(tool(), undefined)).not.toThrow();
+  });
+
+  it('throws a 403 ToolError naming the missing scope', () => {
+    const error = thrown(() => assertToolScope(tool('analyze'), verifyToken('read-token')));
+
+    expect(error).toBeInstanceOf(ToolError);
+    expect(error).toMatchObject({
+      message: 'Client dashboard lacks the analyze scope needed by some_tool',
+      statusCode: 403,
+      details: { scope: 'analyze' }
+    });
+  });
+
+  it('audits refused calls of write tools only', async () => {
+    expect(() => assertToolScope(tool('analyze'), verifyToken('read-token'))).toThrow();
+    expect(() => assertToolScope(tool(), verifyToken('ci-token'), { file: 'a.ts' })).toThrow();
+
+    expect(await readAuditLog(1)).toEqual([
+      { timestamp: expect.any(String), client: 'ci', tool: 'some_tool', outcome: 'denied', input: { file: 'a.ts' } }
+    ]);
+  });
+});
+
+describe('requireScope', () => {
+  it('answers 403 to clients without the scope', () => {
+    const res = response();
+    const next = vi.fn();
+    requireScope('analyze')(request(undefined, verifyToken('read-token')), res as unknown as Response, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+    expect(res.body).toEqual({ success: false, error: 'Client dashboard lacks the analyze scope needed by POST /write', scope: 'analyze' });
+  });
+
+  it('passes clients with the scope on', () => {
+    const next = vi.fn();
+    requireScope('read')(request(undefined, verifyToken('read-token')), response() as unknown as Response, next);
+
+    expect(next).toHaveBeenCalledOnce();
+  });
+
+  it('audits denied and finished calls of write routes with their outcome', async () => {
+    requireScope('write')(request(undefined, verifyToken('ci-token')), response() as unknown as Response, () => undefined);
+
+    const ok = response();
+    requireScope('write')(request(undefined, verifyToken('admin-token')), ok as unknown as Response, () => undefined);
+    ok.status(201).json({ success: true });
+
+    const failed = response();
+    requireScope('write')(request(undefined, verifyToken('admin-token')), failed as unknown as Response, () => undefined);
+    failed.status(409).json({ success: false });
+
+    expect((await readAuditLog(3)).map(({ client, tool, outcome }) => ({ client, tool, outcome }))).toEqual([
+      { client: 'ci', tool: 'POST /write', outcome: 'denied' },
+      { client: 'admin', tool: 'POST /write', outcome: 'succeeded' },
+      { client: 'admin', tool: 'POST /write', outcome: 'failed' }
+    ]);
+  });
+});
+
+describe('auditCall', () => {
+  it('appends JSON lines in call order, creating the log directory', async () => {
+    auditCall({ client: 'admin', tool: 'apply_change_set', outcome: 'succeeded', jobId: 'job-1' });
+    auditCall({ client: 'admin', tool: 'apply_change_set', outcome: 'failed', error: 'Conflict' });
+
+    expect(await readAuditLog(2)).toEqual([
+      { timestamp: expect.any(String), client: 'admin', tool: 'apply_change_set', outcome: 'succeeded', jobId: 'job-1' },
+      { timestamp: expect.any(String), client: 'admin', tool: 'apply_change_set', outcome: 'failed', error: 'Conflict' }
+    ]);
+  });
+});
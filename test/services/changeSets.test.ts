@@ -0,0 +1,219 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getConfig } from '../../src/config.js';
+import { applyChangeSet, previewChanges, toChangeSetView } from '../../src/services/changeSets.js';
+
+let tmp: string;
+let project: string;
+let savedRoots: string[] | undefined;
+
+function read(file: string): string {
+  return fs.readFileSync(path.join(project, file), 'utf8');
+}
+
+function exists(file: string): boolean {
+  return fs.existsSync(path.join(project, file));
+}
+
+/** Diff shown for changing src/x.ts from `previous` (null when it does not exist) to `content` */
+async function diffOf(previous: string | null, content: string): Promise<string> {
+  if (previous !== null) fs.outputFileSync(path.join(project, 'src/x.ts'), previous);
+  const changeSet = await previewChanges('test', project, [{ file: 'src/x.ts', content, overwrite: true }]);
+  return toChangeSetView(changeSet).files.map(file => file.diff).join('');
+}
+
+function lines(count: number, change: (line: number) => string = line => `l${line}`): string {
+  return Array.from({ length: count }, (_, i) => `${change(i + 1)}\n`).join('');
+}
+
+beforeAll(() => {
+  tmp = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'change-sets-test-')));
+  savedRoots = getConfig().allowedRoots;
+  getConfig().allowedRoots = [tmp];
+});
+
+beforeEach(() => {
+  project = fs.mkdtempSync(path.join(tmp, 'project-'));
+  fs.outputFileSync(path.join(project, 'a.txt'), 'a\n');
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+afterAll(() => {
+  getConfig().allowedRoots = savedRoots;
+  fs.removeSync(tmp);
+});
+
+describe('previewChanges', () => {
+  it('plans creates and overwrites without touching disk', async () => {
+    const changeSet = await previewChanges('test', project, [
+      { file: 'a.txt', content: 'A\n', overwrite: true },
+      { file: 'src/b.txt', content: 'b\n' }
+    ]);
+
+    expect(changeSet.changes.map(({ file, action, previous }) => ({ file, action, previous }))).toEqual([
+      { file: path.join(project, 'a.txt'), action: 'update', previous: 'a\n' },
+      { file: path.join(project, 'src/b.txt'), action: 'create', previous: null }
+    ]);
+    expect(read('a.txt')).toBe('a\n');
+    expect(exists('src/b.txt')).toBe(false);
+  });
+
+  it('leaves out existing files that may not be overwritten or would not change', async () => {
+    const changeSet = await previewChanges('test', project, [
+      { file: 'a.txt', content: 'A\n' },
+      { file: 'a.txt', content: 'a\n', overwrite: true }
+    ]);
+
+    expect(changeSet.changes).toEqual([]);
+  });
+});
+
+describe('applyChangeSet', () => {
+  it('writes the files once and refuses to apply them again', async () => {
+    const changeSet = await previewChanges('test', project, [
+      { file: 'a.txt', content: 'A\n', overwrite: true },
+      { file: 'src/b.txt', content: 'b\n' }
+    ]);
+
+    const { changeSet: applied } = await applyChangeSet(changeSet.id);
+
+    expect(applied).toMatchObject({ status: 'applied', appliedAt: expect.any(String) });
+    expect(read('a.txt')).toBe('A\n');
+    expect(read('src/b.txt')).toBe('b\n');
+    await expect(applyChangeSet(changeSet.id)).rejects.toMatchObject({ statusCode: 409, message: expect.stringMatching(/already applied/) });
+  });
+
+  it('applies a change set only once when two calls race', async () => {
+    const changeSet = await previewChanges('test', project, [{ file: 'src/b.txt', content: 'b\n' }]);
+
+    const results = await Promise.allSettled([applyChangeSet(changeSet.id), applyChangeSet(changeSet.id)]);
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason).toMatchObject({ statusCode: 409 });
+  });
+
+  it('answers 404 for unknown change sets', async () => {
+    await expect(applyChangeSet('missing')).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('writes nothing and stays pending when a file changed since the preview', async () => {
+    const changeSet = await previewChanges('test', project, [
+      { file: 'a.txt', content: 'A\n', overwrite: true },
+      { file: 'src/b.txt', content: 'b\n' },
+      { file: 'c.txt', content: 'c\n' }
+    ]);
+    fs.writeFileSync(path.join(project, 'a.txt'), 'edited\n');
+    fs.outputFileSync(path.join(project, 'src/b.txt'), 'created meanwhile\n');
+
+    await expect(applyChangeSet(changeSet.id)).rejects.toMatchObject({
+      statusCode: 409,
+      details: { conflicts: ['a.txt', path.join('src', 'b.txt')] }
+    });
+    expect(read('a.txt')).toBe('edited\n');
+    expect(exists('c.txt')).toBe(false);
+    expect(changeSet.status).toBe('pending');
+    expect(changeSet.appliedAt).toBeUndefined();
+  });
+
+  it('restores the files it wrote when a write fails', async () => {
+    const changeSet = await previewChanges('test', project, [
+      { file: 'a.txt', content: 'A\n', overwrite: true },
+      { file: 'src/b.txt', content: 'b\n' },
+      { file: 'c.txt', content: 'c\n' }
+    ]);
+    const writeFile = fs.writeFile;
+    vi.spyOn(fs, 'writeFile').mockImplementation(((file: string, ...args: unknown[]) => {
+      if (file.endsWith('c.txt')) return Promise.reject(new Error('disk full'));
+      return (writeFile as Function)(file, ...args);
+    }) as typeof fs.writeFile);
+
+    await expect(applyChangeSet(changeSet.id)).rejects.toThrow('disk full');
+
+    expect(read('a.txt')).toBe('a\n');
+    expect(exists('src/b.txt')).toBe(false);
+    expect(exists('c.txt')).toBe(false);
+    expect(changeSet.status).toBe('pending');
+
+    vi.restoreAllMocks();
+    await applyChangeSet(changeSet.id);
+    expect(read('c.txt')).toBe('c\n');
+  });
+});
+
+describe('toChangeSetView', () => {
+  it('diffs changed lines with their context', async () => {
+    expect(await diffOf('a\nb\nc\n', 'a\nB\nc\nd\n')).toBe([
+      '--- a/src/x.ts',
+      '+++ b/src/x.ts',
+      '@@ -1,3 +1,4 @@',
+      ' a',
+      '-b',
+      '+B',
+      ' c',
+      '+d',
+      ''
+    ].join('\n'));
+  });
+
+  it('keeps the lines the old and new file have in common, in order', async () => {
+    expect(await diffOf('a\nb\nc\nd\n', 'b\nx\nd\ny\n')).toBe([
+      '--- a/src/x.ts',
+      '+++ b/src/x.ts',
+      '@@ -1,4 +1,4 @@',
+      '-a',
+      ' b',
+      '-c',
+      '+x',
+      ' d',
+      '+y',
+      ''
+    ].join('\n'));
+  });
+
+  it('splits changes more than twice the context apart into hunks', async () => {
+    const diff = await diffOf(lines(20), lines(20, line => (line === 2 || line === 19 ? `L${line}` : `l${line}`)));
+
+    expect(diff).toBe([
+      '--- a/src/x.ts',
+      '+++ b/src/x.ts',
+      '@@ -1,5 +1,5 @@',
+      ' l1',
+      '-l2',
+      '+L2',
+      ' l3',
+      ' l4',
+      ' l5',
+      '@@ -16,5 +16,5 @@',
+      ' l16',
+      ' l17',
+      ' l18',
+      '-l19',
+      '+L19',
+      ' l20',
+      ''
+    ].join('\n'));
+  });
+
+  it('diffs new files against /dev/null and marks a missing final newline', async () => {
+    expect(await diffOf(null, 'x\ny')).toBe([
+      '--- /dev/null',
+      '+++ b/src/x.ts',
+      '@@ -0,0 +1,2 @@',
+      '+x',
+      '+y',
+      '\\ No newline at end of file',
+      ''
+    ].join('\n'));
+  });
+
+  it('shows paths relative to the project root', async () => {
+    const changeSet = await previewChanges('test', project, [{ file: 'src/b.txt', content: 'b\n' }]);
+
+    expect(toChangeSetView(changeSet).files).toEqual([{ path: 'src/b.txt', action: 'create', diff: expect.any(String) }]);
+  });
+});
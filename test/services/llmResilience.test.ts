@@ -0,0 +1,158 @@
+import { AxiosError, AxiosResponse } from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CircuitBreaker, describeError, isRetryableError, withRetry } from '../../src/services/llmResilience.js';
+
+function httpError(status: number, headers: Record<string, string> = {}, data: unknown = {}): AxiosError {
+  const response = { status, statusText: '', headers, data, config: {} } as AxiosResponse;
+  return new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', undefined, undefined, response);
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('CircuitBreaker', () => {
+  it('opens after the failure threshold, turns half-open after the cooldown and closes on success', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 });
+
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.recordFailure();
+    expect(breaker.getStatus()).toEqual({ state: 'closed', failures: 1 });
+
+    breaker.recordFailure();
+    expect(breaker.getStatus()).toEqual({ state: 'open', failures: 2, retryAt: '2026-01-01T00:00:01.000Z' });
+    expect(breaker.tryAcquire()).toBe(false);
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.getStatus().state).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(true);
+
+    breaker.recordSuccess();
+    expect(breaker.getStatus()).toEqual({ state: 'closed', failures: 0 });
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it('reopens for another cooldown when the trial call fails', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+    breaker.recordFailure();
+    vi.advanceTimersByTime(1000);
+
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.recordFailure();
+
+    expect(breaker.getStatus()).toMatchObject({ state: 'open', retryAt: '2026-01-01T00:00:02.000Z' });
+    vi.advanceTimersByTime(999);
+    expect(breaker.allowsRequest()).toBe(false);
+    vi.advanceTimersByTime(1);
+    expect(breaker.allowsRequest()).toBe(true);
+  });
+
+  it('hands the half-open trial to one caller at a time', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+    breaker.recordFailure();
+    vi.advanceTimersByTime(1000);
+
+    expect(breaker.allowsRequest()).toBe(true);
+    expect([breaker.tryAcquire(), breaker.tryAcquire(), breaker.tryAcquire()]).toEqual([true, false, false]);
+    expect(breaker.allowsRequest()).toBe(false);
+
+    breaker.release();
+    expect(breaker.getStatus().state).toBe('half-open');
+    expect([breaker.tryAcquire(), breaker.tryAcquire()]).toEqual([true, false]);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries retryable errors with exponential backoff', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const fn = vi.fn()
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(httpError(429))
+      .mockResolvedValue('ok');
+
+    const result = withRetry(fn, { maxRetries: 3, baseDelayMs: 100 });
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fn).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(199);
+    expect(fn).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await result).toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('waits as long as Retry-After asks', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const fn = vi.fn().mockRejectedValueOnce(httpError(429, { 'retry-after': '2' })).mockResolvedValue('ok');
+
+    const result = withRetry(fn, { maxRetries: 1, baseDelayMs: 100 });
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await result).toBe('ok');
+  });
+
+  it('throws errors that are not retryable, and the last error once the retries run out', async () => {
+    const unauthorized = httpError(401);
+    await expect(withRetry(vi.fn().mockRejectedValue(unauthorized), { maxRetries: 3, baseDelayMs: 100 })).rejects.toBe(unauthorized);
+
+    const unavailable = httpError(503);
+    const fn = vi.fn().mockRejectedValue(unavailable);
+    const result = withRetry(fn, { maxRetries: 2, baseDelayMs: 100 });
+    const settled = expect(result).rejects.toBe(unavailable);
+    await vi.runAllTimersAsync();
+
+    await settled;
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('rejects with the abort reason when the wait between attempts is aborted', async () => {
+    const controller = new AbortController();
+    const fn = vi.fn().mockRejectedValue(httpError(503));
+
+    const result = withRetry(fn, { maxRetries: 3, baseDelayMs: 1000, signal: controller.signal });
+    const settled = expect(result).rejects.toThrow('Cancelled by the client');
+    await vi.advanceTimersByTimeAsync(10);
+    controller.abort(new Error('Cancelled by the client'));
+
+    await settled;
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('does not wait when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('Cancelled'));
+
+    await expect(withRetry(vi.fn().mockRejectedValue(httpError(503)), { maxRetries: 3, baseDelayMs: 1000, signal: controller.signal }))
+      .rejects.toThrow('Cancelled');
+  });
+});
+
+describe('isRetryableError', () => {
+  it('retries timeouts, rate limits and server errors only', () => {
+    expect(isRetryableError(httpError(429))).toBe(true);
+    expect(isRetryableError(httpError(502))).toBe(true);
+    expect(isRetryableError(new AxiosError('timeout of 60000ms exceeded', 'ECONNABORTED'))).toBe(true);
+    expect(isRetryableError(httpError(400))).toBe(false);
+    expect(isRetryableError(new AxiosError('canceled', 'ERR_CANCELED'))).toBe(false);
+    expect(isRetryableError(new Error('boom'))).toBe(false);
+  });
+});
+
+describe('describeError', () => {
+  it('names the status and the message of the provider', () => {
+    expect(describeError(httpError(429, {}, { error: { message: 'Rate limit reached' } }))).toBe('HTTP 429: Rate limit reached');
+    expect(describeError(new AxiosError('timeout of 60000ms exceeded'))).toBe('timeout of 60000ms exceeded');
+    expect(describeError(new Error('boom'))).toBe('boom');
+  });
+});
@@ -0,0 +1,95 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { getConfig, ServerConfig } from '../../src/config.js';
+import { ToolError } from '../../src/plugins/types.js';
+import { assertAllowedPath, resolveProjectFile } from '../../src/services/sandbox.js';
+
+let tmp: string;
+let app: string;
+let saved: Partial<ServerConfig>;
+
+/** The status code of the ToolError `fn` throws, or undefined when it does not throw */
+function statusOf(fn: () => unknown): number | undefined {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(ToolError);
+    return (error as ToolError).statusCode;
+  }
+  return undefined;
+}
+
+beforeAll(() => {
+  tmp = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'sandbox-test-')));
+  app = path.join(tmp, 'srv/app');
+  fs.outputFileSync(path.join(app, 'src/index.ts'), '');
+  fs.outputFileSync(path.join(tmp, 'srv/app2/secret.ts'), '');
+  fs.outputFileSync(path.join(tmp, 'etc/passwd'), '');
+  const { allowedRoots, projectRoot, projects } = getConfig();
+  saved = { allowedRoots, projectRoot, projects };
+});
+
+beforeEach(() => {
+  Object.assign(getConfig(), { allowedRoots: [app], projects: {} });
+});
+
+afterAll(() => {
+  Object.assign(getConfig(), saved);
+  fs.removeSync(tmp);
+});
+
+describe('assertAllowedPath', () => {
+  it('returns paths inside an allowed root, including ones that do not exist yet', () => {
+    expect(assertAllowedPath(app)).toBe(app);
+    expect(assertAllowedPath(path.join(app, 'src/index.ts'))).toBe(path.join(app, 'src/index.ts'));
+    expect(assertAllowedPath(path.join(app, 'src/new/file.ts'))).toBe(path.join(app, 'src/new/file.ts'));
+  });
+
+  it('rejects a sibling whose name starts with the root', () => {
+    expect(statusOf(() => assertAllowedPath(path.join(tmp, 'srv/app2')))).toBe(403);
+    expect(statusOf(() => assertAllowedPath(path.join(tmp, 'srv/app2/secret.ts')))).toBe(403);
+  });
+
+  it('rejects paths that leave the root through ..', () => {
+    expect(statusOf(() => assertAllowedPath(path.join(app, '../app2/secret.ts')))).toBe(403);
+    expect(statusOf(() => assertAllowedPath(`${app}/src/../../../etc/passwd`))).toBe(403);
+  });
+
+  it('rejects symlinks inside the root that point outside it', () => {
+    fs.ensureSymlinkSync(path.join(tmp, 'etc'), path.join(app, 'etc-link'));
+    fs.symlinkSync(path.join(tmp, 'missing'), path.join(app, 'dangling'));
+
+    expect(statusOf(() => assertAllowedPath(path.join(app, 'etc-link/passwd')))).toBe(403);
+    expect(statusOf(() => assertAllowedPath(path.join(app, 'dangling/file.ts')))).toBe(403);
+  });
+
+  it('allows a root reached through a symlink', () => {
+    fs.ensureSymlinkSync(app, path.join(tmp, 'app-link'));
+
+    expect(statusOf(() => assertAllowedPath(path.join(tmp, 'app-link/src/index.ts')))).toBeUndefined();
+  });
+
+  it('allows the roots of registered projects', () => {
+    Object.assign(getConfig(), { projects: { other: { root: path.join(tmp, 'srv/app2') } } });
+
+    expect(statusOf(() => assertAllowedPath(path.join(tmp, 'srv/app2/secret.ts')))).toBeUndefined();
+    expect(statusOf(() => assertAllowedPath(path.join(tmp, 'etc/passwd')))).toBe(403);
+  });
+});
+
+describe('resolveProjectFile', () => {
+  it('resolves files relative to the project root', () => {
+    expect(resolveProjectFile(app, 'src/index.ts')).toBe(path.join(app, 'src/index.ts'));
+    expect(resolveProjectFile(app, path.join(app, 'src/index.ts'))).toBe(path.join(app, 'src/index.ts'));
+  });
+
+  it('rejects .., sibling-prefix and symlinked paths outside the project', () => {
+    fs.ensureSymlinkSync(path.join(tmp, 'etc'), path.join(app, 'etc-link'));
+
+    expect(statusOf(() => resolveProjectFile(app, '../app2/secret.ts'))).toBe(403);
+    expect(statusOf(() => resolveProjectFile(app, path.join(tmp, 'srv/app2/secret.ts')))).toBe(403);
+    expect(statusOf(() => resolveProjectFile(app, 'etc-link/passwd'))).toBe(403);
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest';
+import { mergeTestConfig, TestConfigDefaults } from '../../src/services/viteConfig.js';
+
+const defaults: TestConfigDefaults = {
+  globals: true,
+  environment: 'jsdom',
+  setupFiles: './src/setupTests.ts',
+  coverage: {
+    provider: 'v8',
+    reporter: ['text', 'json'],
+    thresholds: { lines: 90 }
+  }
+};
+
+const TEST_BLOCK = `  test: {
+    globals: true,
+    environment: 'jsdom',
+    setupFiles: './src/setupTests.ts',
+    coverage: {
+      provider: 'v8',
+      reporter: ['text', 'json'],
+      thresholds: {
+        lines: 90
+      }
+    }
+  },`;
+
+describe('mergeTestConfig', () => {
+  it('adds a test block to a config wrapped in defineConfig', () => {
+    const source = `import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+export default defineConfig({
+  plugins: [react()],
+});
+`;
+    const patch = mergeTestConfig(source, 'vite.config.ts', defaults);
+
+    expect(patch.content).toBe(`import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+export default defineConfig({
+${TEST_BLOCK}
+  plugins: [react()],
+});
+`);
+    expect(patch.changes).toEqual(['Added a test block to vite.config.ts']);
+    expect(patch).toMatchObject({ environment: 'jsdom', provider: 'v8', addedSetupFiles: true, warnings: [] });
+  });
+
+  it('breaks up a config written on one line', () => {
+    const patch = mergeTestConfig(`export default defineConfig({ plugins: [react()] });\n`, 'vite.config.ts', defaults);
+
+    expect(patch.content).toBe(`export default defineConfig({
+${TEST_BLOCK}
+  plugins: [react()]
+});
+`);
+  });
+
+  it('adds the test block to the last object given to mergeConfig', () => {
+    const source = `import { defineConfig, mergeConfig } from 'vitest/config';
+import viteConfig from './vite.config';
+
+export default mergeConfig(viteConfig, defineConfig({
+  server: { port: 3000 },
+}));
+`;
+    const patch = mergeTestConfig(source, 'vitest.config.ts', defaults);
+
+    expect(patch.content).toBe(`import { defineConfig, mergeConfig } from 'vitest/config';
+import viteConfig from './vite.config';
+
+export default mergeConfig(viteConfig, defineConfig({
+${TEST_BLOCK}
+  server: { port: 3000 },
+}));
+`);
+  });
+
+  it('keeps keys the config sets and adds the missing ones', () => {
+    const source = `export default {
+  test: {
+    environment: 'happy-dom',
+    coverage: {
+      provider: 'istanbul',
+    },
+  },
+};
+`;
+    const patch = mergeTestConfig(source, 'vitest.config.js', defaults);
+
+    expect(patch.content).toBe(`export default {
+  test: {
+    globals: true,
+    setupFiles: './src/setupTests.ts',
+    environment: 'happy-dom',
+    coverage: {
+      reporter: ['text', 'json'],
+      thresholds: {
+        lines: 90
+      },
+      provider: 'istanbul',
+    },
+  },
+};
+`);
+    expect(patch).toMatchObject({ environment: 'happy-dom', provider: 'istanbul', addedSetupFiles: true });
+  });
+
+  it('replaces c8 and moves legacy thresholds with their comments into coverage.thresholds', () => {
+    const source = `export default defineConfig({
+  test: {
+    globals: true,
+    environment: 'jsdom',
+    setupFiles: './src/setupTests.ts',
+    coverage: {
+      provider: 'c8', // removed in Vitest 1
+      reporter: ['text'],
+      // Enforce 100% coverage thresholds
+      statements: 100,
+      lines: 100
+    }
+  }
+});
+`;
+    const patch = mergeTestConfig(source, 'vitest.config.ts', defaults);
+
+    expect(patch.content).toBe(`export default defineConfig({
+  test: {
+    globals: true,
+    environment: 'jsdom',
+    setupFiles: './src/setupTests.ts',
+    coverage: {
+      // Enforce 100% coverage thresholds
+      thresholds: {
+        statements: 100,
+        lines: 100
+      },
+      provider: 'v8', // removed in Vitest 1
+      reporter: ['text']
+    }
+  }
+});
+`);
+    expect(patch.changes).toEqual([
+      'Replaced the c8 coverage provider with v8 in vitest.config.ts',
+      'Moved coverage.statements, coverage.lines into coverage.thresholds in vitest.config.ts'
+    ]);
+  });
+
+  it('warns about legacy threshold keys next to thresholds and leaves them', () => {
+    const source = `export default { test: { globals: true, environment: 'jsdom', setupFiles: [], coverage: { provider: 'v8', reporter: [], thresholds: {}, lines: 80 } } };\n`;
+    const patch = mergeTestConfig(source, 'vitest.config.ts', defaults);
+
+    expect(patch.content).toBe(source);
+    expect(patch.warnings).toEqual(['coverage in vitest.config.ts sets lines next to thresholds; Vitest only reads thresholds']);
+  });
+
+  it('warns instead of editing a test block that is not an object literal', () => {
+    const source = `import shared from './shared';\nexport default { test: shared };\n`;
+    const patch = mergeTestConfig(source, 'vitest.config.ts', defaults);
+
+    expect(patch.content).toBe(source);
+    expect(patch.warnings).toHaveLength(1);
+  });
+
+  it('warns when it cannot find the exported config', () => {
+    const source = `export const config = {};\n`;
+    const patch = mergeTestConfig(source, 'vite.config.ts', defaults);
+
+    expect(patch.content).toBe(source);
+    expect(patch.warnings).toEqual(['Could not find the config object exported by vite.config.ts; add the test block by hand']);
+  });
+
+  it('references the Vitest types in TypeScript Vite configs', () => {
+    const patch = mergeTestConfig(`export default defineConfig({});\n`, 'vite.config.ts', defaults, { typesReference: 'vitest' });
+
+    expect(patch.content.startsWith('/// <reference types="vitest" />\nexport default defineConfig({\n  test: {')).toBe(true);
+  });
+});
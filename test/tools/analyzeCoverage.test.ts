@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { buildCoverageRunArgs } from '../../src/tools/analyzeCoverage.js';
+
+describe('buildCoverageRunArgs', () => {
+  it('keeps the coverage report when tests fail', async () => {
+    const { args } = await buildCoverageRunArgs(process.cwd(), {});
+
+    expect(args).toEqual(['run', '--coverage', '--coverage.reportOnFailure', '--reporter=json']);
+  });
+
+  it('appends the scope after the coverage flags', async () => {
+    const { args, changedFiles } = await buildCoverageRunArgs(process.cwd(), { testNamePattern: 'renders', project: 'web' });
+
+    expect(args).toEqual(['run', '--coverage', '--coverage.reportOnFailure', '--reporter=json', '--testNamePattern', 'renders', '--project', 'web']);
+    expect(changedFiles).toBeUndefined();
+  });
+});
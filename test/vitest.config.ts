@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+// Unit tests of the server. The vitest.config.ts in the repository root is the React setup
+// (jsdom, setup file) and does not apply to them.
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    environment: 'node',
+    watch: false
+  }
+});